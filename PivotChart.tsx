@@ -0,0 +1,303 @@
+import React from 'react';
+import { PivotResult, formatPivotValue } from './pivot';
+import {
+  PivotChartData,
+  PivotChartSlice,
+  PivotChartType,
+  getChartColors,
+  getNiceTicks,
+  getPivotChartData,
+  getPivotChartRings,
+  getSeriesColor
+} from './pivotChartData';
+import { PivotTheme } from './pivotFormatting';
+
+interface PivotChartProps {
+  result: PivotResult;
+  type: PivotChartType;
+  // Which of the result's measures to plot
+  measure?: number;
+  theme?: PivotTheme;
+  locale?: string;
+  // Size of the drawing in SVG units; it scales to the container width
+  width?: number;
+  height?: number;
+  className?: string;
+}
+
+const MARGIN = { top: 16, right: 16, bottom: 32, left: 80 };
+// Height of one line of category or group labels
+const LABEL_LINE = 18;
+// Below this band width category labels are slanted so they do not overlap
+const MIN_UPRIGHT_BAND = 64;
+
+// The pivot as a dependency-free SVG chart: leaf rows along the category axis, with outer row levels
+// as brackets under it, and leaf columns as series. Pies nest one ring per row level.
+const PivotChart: React.FC<PivotChartProps> = ({
+  result,
+  type,
+  measure = 0,
+  theme = 'light',
+  locale,
+  width = 800,
+  height = 400,
+  className
+}) => {
+  const chart = getPivotChartData(result, measure);
+
+  if (result.data.length === 0 || !chart.measure) {
+    return (
+      <div className={`pivot-chart pivot-table-empty pivot-table-theme-${theme} ${className || ''}`}>
+        <p>No data to display</p>
+      </div>
+    );
+  }
+
+  const format = (value: number) => formatPivotValue(value, chart.measure, locale);
+  const rings = type === 'pie' ? getPivotChartRings(result, measure) : [];
+  // Pies are keyed by their top-level slices, the other charts by series
+  const legend = type === 'pie'
+    ? (rings[0] || []).map(slice => ({ label: slice.label, colorIndex: slice.colorIndex }))
+    : result.columnFields.length > 0
+      ? chart.series.map((series, index) => ({ label: series.label, colorIndex: index }))
+      : [];
+
+  return (
+    <div className={`pivot-chart pivot-table-theme-${theme} ${className || ''}`}>
+      <svg
+        className="pivot-chart-canvas"
+        viewBox={`0 0 ${width} ${height}`}
+        width="100%"
+        role="img"
+        aria-label={`${chart.measure.label} by ${[...result.rowFields, ...result.columnFields].join(', ') || 'total'}`}
+      >
+        {type === 'pie'
+          ? renderPie(rings, width, height, theme, format)
+          : renderCartesian(chart, type, width, height, theme, format)}
+      </svg>
+      {legend.length > 0 && (
+        <div className="pivot-chart-legend">
+          {legend.map((entry, index) => (
+            <span key={index} className="pivot-format-legend-entry">
+              <span className="pivot-format-legend-swatch" style={{ backgroundColor: getSeriesColor(entry.colorIndex, theme) }} />
+              {entry.label}
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+function renderCartesian(
+  chart: PivotChartData,
+  type: Exclude<PivotChartType, 'pie'>,
+  width: number,
+  height: number,
+  theme: PivotTheme,
+  format: (value: number) => string
+): React.ReactNode {
+  const colors = getChartColors(theme);
+  const { categories, series, groups } = chart;
+  const stacked = type === 'stackedBar' || type === 'area';
+  const valueAt = (seriesIndex: number, category: number) => {
+    const value = series[seriesIndex].values[category];
+    return Number.isFinite(value) ? value : 0;
+  };
+
+  // Stacks grow up from zero for positive values and down for negative ones
+  const stacks = categories.map((_, category) => {
+    let above = 0;
+    let below = 0;
+    return series.map((__, seriesIndex) => {
+      const value = valueAt(seriesIndex, category);
+      const base = value >= 0 ? above : below;
+      if (value >= 0) above += value; else below += value;
+      return { from: base, to: base + value };
+    });
+  });
+  const extents = stacked
+    ? stacks.flat().flatMap(segment => [segment.from, segment.to])
+    : series.flatMap(entry => entry.values.filter(Number.isFinite));
+  const ticks = getNiceTicks(Math.min(0, ...extents), Math.max(0, ...extents));
+
+  const plotLeft = MARGIN.left;
+  const plotWidth = width - MARGIN.left - MARGIN.right;
+  const band = plotWidth / categories.length;
+  const slanted = band < MIN_UPRIGHT_BAND;
+  const labelHeight = (slanted ? 64 : LABEL_LINE) + groups.length * LABEL_LINE;
+  const plotTop = MARGIN.top;
+  const plotHeight = Math.max(height - MARGIN.top - MARGIN.bottom - labelHeight, 40);
+  const plotBottom = plotTop + plotHeight;
+
+  const low = ticks[0];
+  const high = ticks[ticks.length - 1];
+  const y = (value: number) => plotTop + ((high - value) / (high - low)) * plotHeight;
+  const center = (category: number) => plotLeft + band * (category + 0.5);
+  const describe = (seriesIndex: number, category: number) => {
+    const value = series[seriesIndex].values[category];
+    const name = [categories[category].path.join(' / '), series.length > 1 ? series[seriesIndex].label : '']
+      .filter(Boolean)
+      .join(' × ');
+    return `${name || chart.measure.label}: ${Number.isFinite(value) ? format(value) : '–'}`;
+  };
+
+  const marks: React.ReactNode[] = [];
+  if (type === 'stackedBar' || type === 'groupedBar') {
+    const barWidth = type === 'stackedBar' ? band * 0.7 : (band * 0.8) / series.length;
+    categories.forEach((_, category) => {
+      series.forEach((__, seriesIndex) => {
+        const { from, to } = type === 'stackedBar'
+          ? stacks[category][seriesIndex]
+          : { from: 0, to: valueAt(seriesIndex, category) };
+        if (from === to) return;
+        const x = type === 'stackedBar'
+          ? center(category) - barWidth / 2
+          : plotLeft + band * category + band * 0.1 + barWidth * seriesIndex;
+        marks.push(
+          <rect
+            key={`${category}-${seriesIndex}`}
+            x={x}
+            y={Math.min(y(from), y(to))}
+            width={Math.max(barWidth - 1, 1)}
+            height={Math.abs(y(from) - y(to))}
+            fill={getSeriesColor(seriesIndex, theme)}
+          >
+            <title>{describe(seriesIndex, category)}</title>
+          </rect>
+        );
+      });
+    });
+  } else {
+    series.forEach((entry, seriesIndex) => {
+      const color = getSeriesColor(seriesIndex, theme);
+      if (type === 'area') {
+        const top = categories.map((_, category) => `${center(category)},${y(stacks[category][seriesIndex].to)}`);
+        const bottom = categories.map((_, category) => `${center(category)},${y(stacks[category][seriesIndex].from)}`).reverse();
+        marks.push(
+          <polygon key={`area-${seriesIndex}`} points={[...top, ...bottom].join(' ')} fill={color} fillOpacity={0.55} stroke={color}>
+            <title>{entry.label}</title>
+          </polygon>
+        );
+      } else {
+        // Blank values break the line instead of dropping it to zero
+        const segments: string[][] = [[]];
+        entry.values.forEach((value, category) => {
+          if (Number.isFinite(value)) segments[segments.length - 1].push(`${center(category)},${y(value)}`);
+          else if (segments[segments.length - 1].length > 0) segments.push([]);
+        });
+        segments.filter(points => points.length > 1).forEach((points, index) => {
+          marks.push(
+            <polyline key={`line-${seriesIndex}-${index}`} points={points.join(' ')} fill="none" stroke={color} strokeWidth={2} />
+          );
+        });
+      }
+      entry.values.forEach((value, category) => {
+        if (!Number.isFinite(value)) return;
+        marks.push(
+          <circle
+            key={`point-${seriesIndex}-${category}`}
+            cx={center(category)}
+            cy={y(stacked ? stacks[category][seriesIndex].to : value)}
+            r={3}
+            fill={color}
+          >
+            <title>{describe(seriesIndex, category)}</title>
+          </circle>
+        );
+      });
+    });
+  }
+
+  return (
+    <g fontSize={12} fill={colors.text}>
+      {ticks.map(tick => (
+        <g key={tick}>
+          <line x1={plotLeft} x2={plotLeft + plotWidth} y1={y(tick)} y2={y(tick)} stroke={tick === 0 ? colors.axis : colors.grid} />
+          <text x={plotLeft - 8} y={y(tick)} textAnchor="end" dominantBaseline="middle">{format(tick)}</text>
+        </g>
+      ))}
+      {marks}
+      {categories.map((category, index) => (
+        <text
+          key={`label-${index}`}
+          x={center(index)}
+          y={plotBottom + 14}
+          textAnchor={slanted ? 'end' : 'middle'}
+          transform={slanted ? `rotate(-35 ${center(index)} ${plotBottom + 14})` : undefined}
+        >
+          {truncate(category.label, slanted ? 14 : Math.max(Math.floor(band / 7), 3))}
+        </text>
+      ))}
+      {/* Outer row levels bracket their categories, innermost level first */}
+      {[...groups].reverse().map((spans, depth) => {
+        const top = plotBottom + (slanted ? 64 : LABEL_LINE) + depth * LABEL_LINE;
+        return spans.map((span, index) => {
+          const left = plotLeft + band * span.start + 2;
+          const right = plotLeft + band * span.end - 2;
+          return (
+            <g key={`group-${span.level}-${index}`}>
+              <path d={`M${left},${top - 2} V${top + 2} H${right} V${top - 2}`} fill="none" stroke={colors.axis} />
+              <text x={(left + right) / 2} y={top + 14} textAnchor="middle" fontWeight={600}>
+                {truncate(span.label, Math.max(Math.floor((right - left) / 7), 3))}
+              </text>
+            </g>
+          );
+        });
+      })}
+    </g>
+  );
+}
+
+function renderPie(
+  rings: PivotChartSlice[][],
+  width: number,
+  height: number,
+  theme: PivotTheme,
+  format: (value: number) => string
+): React.ReactNode {
+  const colors = getChartColors(theme);
+  const radius = Math.min(width, height) / 2 - 8;
+  const hole = rings.length > 1 ? radius * 0.2 : 0;
+  const thickness = (radius - hole) / Math.max(rings.length, 1);
+  const cx = width / 2;
+  const cy = height / 2;
+
+  if (rings.length === 0) {
+    return <text x={cx} y={cy} textAnchor="middle" fill={colors.text}>No positive values to chart</text>;
+  }
+
+  return rings.map((ring, depth) => ring.map(slice => (
+    <path
+      key={`${depth}-${slice.key}`}
+      d={getArcPath(cx, cy, hole + thickness * depth, hole + thickness * (depth + 1), slice.start, slice.end)}
+      fill={getSeriesColor(slice.colorIndex, theme)}
+      // Deeper rings are lighter shades of their top-level slice
+      fillOpacity={1 - depth * (0.5 / rings.length)}
+      stroke={colors.background}
+    >
+      <title>{`${slice.path.join(' / ') || 'Total'}: ${format(slice.value)}`}</title>
+    </path>
+  )));
+}
+
+// A ring segment between two radii; a full turn is drawn as two halves since one arc cannot close
+function getArcPath(cx: number, cy: number, inner: number, outer: number, start: number, end: number): string {
+  if (end - start >= 1) {
+    return getArcPath(cx, cy, inner, outer, start, start + 0.5) + ' ' + getArcPath(cx, cy, inner, outer, start + 0.5, end);
+  }
+  const point = (r: number, turn: number) => {
+    const angle = turn * 2 * Math.PI - Math.PI / 2;
+    return `${cx + r * Math.cos(angle)},${cy + r * Math.sin(angle)}`;
+  };
+  const large = end - start > 0.5 ? 1 : 0;
+  const outerArc = `M${point(outer, start)} A${outer},${outer} 0 ${large} 1 ${point(outer, end)}`;
+  if (inner <= 0) return `${outerArc} L${cx},${cy} Z`;
+  return `${outerArc} L${point(inner, end)} A${inner},${inner} 0 ${large} 0 ${point(inner, start)} Z`;
+}
+
+function truncate(label: string, length: number): string {
+  return label.length > length ? `${label.slice(0, Math.max(length - 1, 1))}…` : label;
+}
+
+export default PivotChart;
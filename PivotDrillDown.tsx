@@ -0,0 +1,71 @@
+import React from 'react';
+import { PivotData, formatGroupValue } from './pivot';
+
+interface PivotDrillDownProps {
+  title: string;
+  items: PivotData[];
+  onClose: () => void;
+  // Link for an item, e.g. its monday item page; items without one are listed as plain text
+  getItemUrl?: (item: PivotData) => string | undefined;
+}
+
+const MAX_LISTED_ITEMS = 500;
+
+const PivotDrillDown: React.FC<PivotDrillDownProps> = ({ title, items, onClose, getItemUrl }) => {
+  const fields = Array.from(new Set(items.flatMap(item => Object.keys(item))));
+  const listed = items.slice(0, MAX_LISTED_ITEMS);
+  // The item name carries the link when there is one, so every row has one place to click
+  const linkField = fields.includes('name') ? 'name' : fields[0];
+
+  return (
+    <div className="pivot-drill-down" role="dialog" aria-label={`Items in ${title}`}>
+      <div className="pivot-drill-down-header">
+        <strong>{title}</strong>
+        <span className="pivot-drill-down-count">
+          {items.length} item{items.length === 1 ? '' : 's'}
+        </span>
+        <button type="button" aria-label="Close item list" onClick={onClose}>✕</button>
+      </div>
+
+      {items.length === 0 ? (
+        <p className="pivot-table-empty">No items in this cell</p>
+      ) : (
+        <div className="pivot-drill-down-body">
+          <table className="pivot-table">
+            <thead>
+              <tr>
+                {fields.map(field => (
+                  <th key={field} className="pivot-table-column-header">{field}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {listed.map((item, index) => {
+                const url = getItemUrl ? getItemUrl(item) : undefined;
+                return (
+                  <tr key={index}>
+                    {fields.map(field => {
+                      const text = formatGroupValue(item[field]);
+                      return (
+                        <td key={field}>
+                          {url && field === linkField
+                            ? <a href={url} target="_blank" rel="noopener noreferrer">{text || 'Open item'}</a>
+                            : text}
+                        </td>
+                      );
+                    })}
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+          {items.length > MAX_LISTED_ITEMS && (
+            <p className="pivot-drill-down-count">Showing the first {MAX_LISTED_ITEMS} items</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PivotDrillDown;
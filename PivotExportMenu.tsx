@@ -0,0 +1,54 @@
+import React, { useState } from 'react';
+import { PivotResult } from './pivot';
+import { copyPivotToClipboard, downloadPivotExport } from './pivotExport';
+
+interface PivotExportMenuProps {
+  result: PivotResult;
+  fileName?: string;
+  locale?: string;
+}
+
+const PivotExportMenu: React.FC<PivotExportMenuProps> = ({ result, fileName = 'pivot', locale }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const handleCopy = async () => {
+    try {
+      await copyPivotToClipboard(result, locale);
+      setMessage('Copied to clipboard');
+    } catch (error) {
+      console.error('❌ Error copying pivot table:', error);
+      setMessage('Copy failed');
+    }
+    setIsOpen(false);
+  };
+
+  const handleDownload = (format: 'csv' | 'xlsx') => {
+    downloadPivotExport(result, format, fileName, locale);
+    setMessage(null);
+    setIsOpen(false);
+  };
+
+  return (
+    <div className="pivot-export-menu">
+      <button
+        type="button"
+        className="pivot-export-button"
+        aria-expanded={isOpen}
+        onClick={() => setIsOpen(!isOpen)}
+      >
+        Export ▾
+      </button>
+      {isOpen && (
+        <div className="pivot-export-options" role="menu">
+          <button type="button" role="menuitem" onClick={() => handleDownload('csv')}>CSV</button>
+          <button type="button" role="menuitem" onClick={() => handleDownload('xlsx')}>Excel (.xlsx)</button>
+          <button type="button" role="menuitem" onClick={handleCopy}>Copy to clipboard</button>
+        </div>
+      )}
+      {message && <span className="pivot-export-message">{message}</span>}
+    </div>
+  );
+};
+
+export default PivotExportMenu;
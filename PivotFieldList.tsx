@@ -0,0 +1,528 @@
+import React, { useMemo, useState } from 'react';
+import {
+  PivotBinning,
+  PivotCalculatedField,
+  PivotConfig,
+  PivotData,
+  PivotDateGrain,
+  PivotField,
+  PivotFieldSchema,
+  PivotGroupField,
+  PivotFilter,
+  PivotMeasure,
+  applyCalculatedFields,
+  formatGroupValue,
+  getAggregatorLabel,
+  getAggregatorNames,
+  getFieldName,
+  inferFieldSchema,
+  normalizeField
+} from './pivot';
+import { getQuantileEdges } from './pivotBins';
+import { getNiceTicks } from './pivotChartData';
+
+export type PivotFieldZone = 'rows' | 'columns' | 'values' | 'filters';
+
+interface PivotFieldListProps {
+  data: PivotData[];
+  config: PivotConfig;
+  onChange: (config: PivotConfig) => void;
+  // Defaults to the schema inferred from `data`
+  schema?: PivotFieldSchema[];
+  className?: string;
+}
+
+// What is being dragged: a field from the list, or an entry already placed in a zone
+interface DragSource {
+  field: string;
+  zone?: PivotFieldZone;
+  index?: number;
+}
+
+const ZONES: { zone: PivotFieldZone; label: string }[] = [
+  { zone: 'filters', label: 'Filters' },
+  { zone: 'columns', label: 'Columns' },
+  { zone: 'rows', label: 'Rows' },
+  { zone: 'values', label: 'Values' }
+];
+
+const MAX_FILTER_VALUES = 100;
+
+// Quantile bin counts offered for number fields, next to fixed-width and custom ranges
+const BIN_COUNTS = [4, 5, 10];
+
+const DATE_GRAINS: { grain: PivotDateGrain; label: string }[] = [
+  { grain: 'year', label: 'Year' },
+  { grain: 'quarter', label: 'Quarter' },
+  { grain: 'month', label: 'Month' },
+  { grain: 'week', label: 'Week' },
+  { grain: 'day', label: 'Day' },
+  { grain: 'dayOfWeek', label: 'Day of week' }
+];
+
+const PivotFieldList: React.FC<PivotFieldListProps> = ({ data, config, onChange, schema, className }) => {
+  const [dragSource, setDragSource] = useState<DragSource | null>(null);
+  const [dropZone, setDropZone] = useState<PivotFieldZone | null>(null);
+
+  // Items as the pivot sees them, so calculated fields have values to filter and bin
+  const items = useMemo(() => getPivotItems(data, config.calculatedFields), [data, config.calculatedFields]);
+  const fields = useMemo(() => schema || inferFieldSchema(items), [schema, items]);
+  const fieldTypes = new Map(fields.map(field => [field.name, field.type]));
+  const measures = getConfiguredMeasures(config);
+  const filters = config.filters || [];
+
+  const zoneFields = (zone: PivotFieldZone): string[] => {
+    switch (zone) {
+      case 'rows': return config.rows.map(entry => normalizeField(entry).field);
+      case 'columns': return config.columns.map(entry => normalizeField(entry).field);
+      case 'values': return measures.map(measure => measure.field || '');
+      case 'filters': return filters.map(filter => filter.field);
+    }
+  };
+
+  // Places the field into `zone` before `index` (at the end by default), taking it out of where it came from
+  const moveField = (source: DragSource, zone: PivotFieldZone, index?: number) => {
+    const lists: Record<PivotFieldZone, unknown[]> = {
+      rows: [...config.rows],
+      columns: [...config.columns],
+      values: [...measures],
+      filters: [...filters]
+    };
+    let target = index ?? lists[zone].length;
+    let entry: unknown;
+
+    if (source.zone !== undefined && source.index !== undefined) {
+      const [moved] = lists[source.zone].splice(source.index, 1);
+      if (source.zone === zone && source.index < target) target--;
+      // Grouping options such as sorting survive a move between rows and columns
+      if (getZoneKind(source.zone) === getZoneKind(zone)) entry = moved;
+    }
+
+    // A field groups either rows or columns and is filtered at most once, so an existing entry moves
+    const exclusive: PivotFieldZone[] = zone === 'values' ? [] : zone === 'filters' ? ['filters'] : ['rows', 'columns'];
+    for (const other of exclusive) {
+      const existing = lists[other].findIndex(item => getEntryField(other, item) === source.field);
+      if (existing === -1) continue;
+      const [removed] = lists[other].splice(existing, 1);
+      if (other === zone && existing < target) target--;
+      if (entry === undefined) entry = removed;
+    }
+
+    if (entry === undefined) {
+      if (zone === 'values') {
+        entry = { field: source.field, aggregation: getDefaultAggregation(fieldTypes.get(source.field)) };
+      } else {
+        entry = zone === 'filters' ? createValueFilter(source.field) : source.field;
+      }
+    }
+    lists[zone].splice(Math.min(target, lists[zone].length), 0, entry);
+
+    onChange(buildConfig(
+      config,
+      lists.rows as PivotField[],
+      lists.columns as PivotField[],
+      lists.values as PivotMeasure[],
+      lists.filters as PivotFilter[]
+    ));
+  };
+
+  const removeEntry = (zone: PivotFieldZone, index: number) => {
+    const without = <T,>(list: T[]) => list.filter((_, i) => i !== index);
+    onChange(buildConfig(
+      config,
+      zone === 'rows' ? without(config.rows) : config.rows,
+      zone === 'columns' ? without(config.columns) : config.columns,
+      zone === 'values' ? without(measures) : measures,
+      zone === 'filters' ? without(filters) : filters
+    ));
+  };
+
+  const updateMeasure = (index: number, changes: Partial<PivotMeasure>) => {
+    const nextMeasures = measures.map((measure, i) => (i === index ? { ...measure, ...changes } : measure));
+    onChange(buildConfig(config, config.rows, config.columns, nextMeasures, filters));
+  };
+
+  const updateGroupField = (
+    zone: 'rows' | 'columns',
+    index: number,
+    update: (group: PivotGroupField) => PivotGroupField
+  ) => {
+    const list = config[zone].map((entry, i) => (i === index ? update(normalizeField(entry)) : entry));
+    onChange(buildConfig(
+      config,
+      zone === 'rows' ? list : config.rows,
+      zone === 'columns' ? list : config.columns,
+      measures,
+      filters
+    ));
+  };
+
+  // Sets the date grain of a row or column field; keeps other options such as the fiscal year start
+  const updateDateGrain = (zone: 'rows' | 'columns', index: number, grain: PivotDateGrain | '') => {
+    updateGroupField(zone, index, ({ dateGrouping, ...group }) => {
+      if (!grain) return group;
+      return {
+        ...group,
+        dateGrouping: dateGrouping && typeof dateGrouping === 'object' ? { ...dateGrouping, grain } : grain
+      };
+    });
+  };
+
+  const updateBins = (zone: 'rows' | 'columns', index: number, binning: PivotBinning | null) => {
+    updateGroupField(zone, index, ({ bins, ...group }) => (binning ? { ...group, bins: binning } : group));
+  };
+
+  // New fixed-width and custom ranges start from the field's values
+  const chooseBins = (zone: 'rows' | 'columns', index: number, choice: string) => {
+    const { field } = normalizeField(config[zone][index]);
+    const values = items.map(item => item[field]).filter((value): value is number => typeof value === 'number' && Number.isFinite(value));
+    if (choice === 'width') {
+      updateBins(zone, index, { type: 'width', width: getDefaultBinWidth(values) });
+    } else if (choice === 'edges') {
+      const edges = getQuantileEdges(values, 4);
+      updateBins(zone, index, { type: 'edges', edges: edges.length > 0 ? edges : [0] });
+    } else {
+      updateBins(zone, index, choice ? { type: 'quantile', count: Number(choice) } : null);
+    }
+  };
+
+  const updateFilter = (index: number, filter: PivotFilter) => {
+    const nextFilters = filters.map((existing, i) => (i === index ? filter : existing));
+    onChange(buildConfig(config, config.rows, config.columns, measures, nextFilters));
+  };
+
+  const handleDrop = (event: React.DragEvent, zone: PivotFieldZone, index?: number) => {
+    event.preventDefault();
+    event.stopPropagation();
+    setDropZone(null);
+    if (dragSource) moveField(dragSource, zone, index);
+    setDragSource(null);
+  };
+
+  const dragProps = (source: DragSource) => ({
+    draggable: true,
+    onDragStart: (event: React.DragEvent) => {
+      // Firefox only starts a drag when some data is set
+      event.dataTransfer.setData('text/plain', source.field);
+      event.dataTransfer.effectAllowed = 'move';
+      setDragSource(source);
+    },
+    onDragEnd: () => {
+      setDragSource(null);
+      setDropZone(null);
+    }
+  });
+
+  const renderZoneEntry = (zone: PivotFieldZone, field: string, index: number, count: number) => {
+    const group = zone === 'rows' || zone === 'columns' ? normalizeField(config[zone][index]) : null;
+    const fieldLabel = group ? getFieldName(group) : field;
+    const bins = group?.bins;
+    return (
+      <li
+        key={`${field}-${index}`}
+        className="pivot-field-list-entry"
+        {...dragProps({ field, zone, index })}
+        onDragOver={event => event.preventDefault()}
+        onDrop={event => handleDrop(event, zone, index)}
+      >
+        <span className="pivot-field-list-entry-name">
+          {zone === 'values' ? measureLabel(measures[index]) : fieldLabel}
+        </span>
+
+        {(zone === 'rows' || zone === 'columns') && isDateType(fieldTypes.get(field)) && (
+          <select
+            aria-label={`Group ${fieldLabel} by`}
+            value={getDateGrain(config[zone][index])}
+            onChange={event => updateDateGrain(zone, index, event.target.value as PivotDateGrain | '')}
+          >
+            <option value="">Each date</option>
+            {DATE_GRAINS.map(({ grain, label }) => (
+              <option key={grain} value={grain}>{label}</option>
+            ))}
+          </select>
+        )}
+
+        {(zone === 'rows' || zone === 'columns') && fieldTypes.get(field) === 'number' && (
+          <select
+            aria-label={`Bin ${fieldLabel} into`}
+            value={getBinChoice(config[zone][index])}
+            onChange={event => chooseBins(zone, index, event.target.value)}
+          >
+            <option value="">Each value</option>
+            {BIN_COUNTS.map(count => (
+              <option key={count} value={count}>{count} equal-sized bins</option>
+            ))}
+            <option value="width">Fixed-width ranges</option>
+            <option value="edges">Custom ranges</option>
+          </select>
+        )}
+
+        {(zone === 'rows' || zone === 'columns') && bins?.type === 'width' && (
+          <input
+            type="number"
+            aria-label={`Width of ${fieldLabel} ranges`}
+            min={0}
+            step="any"
+            defaultValue={bins.width}
+            onChange={event => {
+              const width = Number(event.target.value);
+              if (width > 0) updateBins(zone, index, { ...bins, width });
+            }}
+          />
+        )}
+
+        {(zone === 'rows' || zone === 'columns') && bins?.type === 'edges' && (
+          <input
+            type="text"
+            aria-label={`Edges of ${fieldLabel} ranges`}
+            placeholder="0, 100, 1000"
+            defaultValue={bins.edges.join(', ')}
+            onChange={event => {
+              const edges = parseBinEdges(event.target.value);
+              if (edges.length > 0) updateBins(zone, index, { type: 'edges', edges });
+            }}
+          />
+        )}
+
+        {zone === 'values' && measures[index].aggregation !== 'formula' && (
+          <select
+            aria-label={`Aggregation for ${field || 'item count'}`}
+            value={measures[index].aggregation}
+            onChange={event => updateMeasure(index, { aggregation: event.target.value, label: undefined })}
+          >
+            {getAggregatorNames().map(name => (
+              <option key={name} value={name}>{getAggregatorLabel(name)}</option>
+            ))}
+          </select>
+        )}
+
+        <span className="pivot-field-list-entry-actions">
+          <button
+            type="button"
+            aria-label={`Move ${fieldLabel} up`}
+            disabled={index === 0}
+            onClick={() => moveField({ field, zone, index }, zone, index - 1)}
+          >
+            ↑
+          </button>
+          <button
+            type="button"
+            aria-label={`Move ${fieldLabel} down`}
+            disabled={index === count - 1}
+            onClick={() => moveField({ field, zone, index }, zone, index + 2)}
+          >
+            ↓
+          </button>
+          <ZoneSelect
+            label={`Move ${fieldLabel} to`}
+            exclude={zone}
+            onSelect={target => moveField({ field, zone, index }, target)}
+          />
+          <button type="button" aria-label={`Remove ${fieldLabel} from ${zone}`} onClick={() => removeEntry(zone, index)}>
+            ✕
+          </button>
+        </span>
+
+        {zone === 'filters' && (
+          <FilterValues data={items} filter={filters[index]} onChange={filter => updateFilter(index, filter)} />
+        )}
+      </li>
+    );
+  };
+
+  return (
+    <div className={`pivot-field-list ${className || ''}`}>
+      <div className="pivot-field-list-fields">
+        <h4>Fields</h4>
+        <ul>
+          {fields.map(field => (
+            <li key={field.name} className="pivot-field-list-field" {...dragProps({ field: field.name })}>
+              <span className="pivot-field-list-entry-name">{field.name}</span>
+              <span className="pivot-field-list-type">{field.type}</span>
+              <ZoneSelect label={`Add ${field.name} to`} onSelect={zone => moveField({ field: field.name }, zone)} />
+            </li>
+          ))}
+        </ul>
+      </div>
+
+      <div className="pivot-field-list-zones">
+        {ZONES.map(({ zone, label }) => {
+          const entries = zoneFields(zone);
+          return (
+            <div
+              key={zone}
+              className={`pivot-field-list-zone ${dropZone === zone ? 'pivot-field-list-zone-active' : ''}`}
+              onDragOver={event => {
+                event.preventDefault();
+                setDropZone(zone);
+              }}
+              onDragLeave={() => setDropZone(null)}
+              onDrop={event => handleDrop(event, zone)}
+            >
+              <h4>{label}</h4>
+              {entries.length === 0 ? (
+                <p className="pivot-field-list-placeholder">Drop fields here</p>
+              ) : (
+                <ul>{entries.map((field, index) => renderZoneEntry(zone, field, index, entries.length))}</ul>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+interface ZoneSelectProps {
+  label: string;
+  exclude?: PivotFieldZone;
+  onSelect: (zone: PivotFieldZone) => void;
+}
+
+// Keyboard alternative to dragging: choose the target zone from a list
+const ZoneSelect: React.FC<ZoneSelectProps> = ({ label, exclude, onSelect }) => (
+  <select
+    aria-label={label}
+    value=""
+    onChange={event => {
+      if (event.target.value) onSelect(event.target.value as PivotFieldZone);
+    }}
+  >
+    <option value="">{exclude ? 'Move to…' : 'Add to…'}</option>
+    {ZONES.filter(({ zone }) => zone !== exclude).map(({ zone, label: zoneLabel }) => (
+      <option key={zone} value={zone}>{zoneLabel}</option>
+    ))}
+  </select>
+);
+
+interface FilterValuesProps {
+  data: PivotData[];
+  filter: PivotFilter;
+  onChange: (filter: PivotFilter) => void;
+}
+
+// Checkbox per distinct value; unchecked values are kept in an excluding 'in' filter
+const FilterValues: React.FC<FilterValuesProps> = ({ data, filter, onChange }) => {
+  const values = useMemo(() => {
+    const labels = new Set(data.map(item => formatGroupValue(item[filter.field])));
+    return Array.from(labels).sort((a, b) => a.localeCompare(b, undefined, { numeric: true }));
+  }, [data, filter.field]);
+
+  if (filter.type !== 'in' || !filter.exclude) {
+    return <p className="pivot-field-list-placeholder">Custom filter</p>;
+  }
+
+  const excluded = new Set(filter.values.map(formatGroupValue));
+  const toggle = (value: string) => {
+    const next = excluded.has(value)
+      ? filter.values.filter(candidate => formatGroupValue(candidate) !== value)
+      : [...filter.values, value];
+    onChange({ ...filter, values: next });
+  };
+
+  return (
+    <div className="pivot-field-list-filter-values">
+      {values.slice(0, MAX_FILTER_VALUES).map(value => (
+        <label key={value}>
+          <input type="checkbox" checked={!excluded.has(value)} onChange={() => toggle(value)} />
+          {value === '' ? '(empty)' : value}
+        </label>
+      ))}
+      {values.length > MAX_FILTER_VALUES && (
+        <p className="pivot-field-list-placeholder">Showing {MAX_FILTER_VALUES} of {values.length} values</p>
+      )}
+    </div>
+  );
+};
+
+// The value zone edits measures; legacy `values`/`aggregation` configs are read as measures
+function getConfiguredMeasures(config: PivotConfig): PivotMeasure[] {
+  if (config.measures && config.measures.length > 0) return config.measures;
+  return config.values.map(field => ({ field, aggregation: config.aggregation || 'sum' }));
+}
+
+function buildConfig(
+  config: PivotConfig,
+  rows: PivotField[],
+  columns: PivotField[],
+  measures: PivotMeasure[],
+  filters: PivotFilter[]
+): PivotConfig {
+  return {
+    ...config,
+    rows,
+    columns,
+    values: measures.map(measure => measure.field || '').filter(field => field !== ''),
+    measures,
+    filters
+  };
+}
+
+function isDateType(type: PivotFieldSchema['type'] | undefined): boolean {
+  return type === 'date' || type === 'range';
+}
+
+function getDateGrain(entry: PivotField): PivotDateGrain | '' {
+  const { dateGrouping } = normalizeField(entry);
+  if (!dateGrouping) return '';
+  return typeof dateGrouping === 'string' ? dateGrouping : dateGrouping.grain;
+}
+
+// '' stands for no binning, and for quantile counts the select does not offer
+function getBinChoice(entry: PivotField): string {
+  const { bins } = normalizeField(entry);
+  if (!bins) return '';
+  if (bins.type === 'quantile') return BIN_COUNTS.includes(bins.count) ? String(bins.count) : '';
+  return bins.type;
+}
+
+// About five ranges across the values, on round numbers
+function getDefaultBinWidth(values: number[]): number {
+  if (values.length === 0) return 1;
+  const ticks = getNiceTicks(
+    values.reduce((min, value) => Math.min(min, value), Infinity),
+    values.reduce((max, value) => Math.max(max, value), -Infinity)
+  );
+  return ticks[1] - ticks[0];
+}
+
+function parseBinEdges(text: string): number[] {
+  return text.split(/[,;\s]+/).filter(part => part !== '').map(Number).filter(Number.isFinite);
+}
+
+// A calculated field that does not compile is reported by the pivot; the list falls back to the raw items
+function getPivotItems(data: PivotData[], calculatedFields: PivotCalculatedField[] = []): PivotData[] {
+  try {
+    return applyCalculatedFields(data, calculatedFields);
+  } catch {
+    return data;
+  }
+}
+
+function getZoneKind(zone: PivotFieldZone): string {
+  return zone === 'rows' || zone === 'columns' ? 'group' : zone;
+}
+
+// The field an entry reads, whatever label it is shown under
+function getEntryField(zone: PivotFieldZone, entry: unknown): string {
+  if (zone === 'rows' || zone === 'columns') return normalizeField(entry as PivotField).field;
+  return (entry as PivotMeasure | PivotFilter).field || '';
+}
+
+// Starts with every value selected, i.e. nothing excluded
+function createValueFilter(field: string): PivotFilter {
+  return { field, type: 'in', values: [], exclude: true };
+}
+
+function getDefaultAggregation(type: PivotFieldSchema['type'] | undefined): PivotMeasure['aggregation'] {
+  return type === 'number' ? 'sum' : 'countNonEmpty';
+}
+
+function measureLabel(measure: PivotMeasure): string {
+  if (measure.aggregation === 'formula') return measure.label || measure.formula || 'Formula';
+  return measure.label || (measure.field
+    ? `${getAggregatorLabel(measure.aggregation)} of ${measure.field}`
+    : getAggregatorLabel(measure.aggregation));
+}
+
+export default PivotFieldList;
@@ -0,0 +1,96 @@
+import React, { useRef, useState } from 'react';
+import { importFile, PivotImportResult } from './fileImport';
+
+interface PivotFileImportProps {
+  onImport: (result: PivotImportResult, fileName: string) => void;
+  className?: string;
+}
+
+const MAX_LISTED_ERRORS = 10;
+
+const PivotFileImport: React.FC<PivotFileImportProps> = ({ onImport, className }) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [isDragging, setIsDragging] = useState(false);
+  const [status, setStatus] = useState<{ fileName: string; result: PivotImportResult } | null>(null);
+  const [failure, setFailure] = useState<string | null>(null);
+
+  const handleFile = async (file: File) => {
+    setFailure(null);
+    try {
+      const result = await importFile(file);
+      setStatus({ fileName: file.name, result });
+      if (result.data.length > 0) {
+        onImport(result, file.name);
+      }
+    } catch (error) {
+      console.error('❌ Error importing file:', error);
+      setStatus(null);
+      setFailure(error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  const handleDrop = (event: React.DragEvent<HTMLDivElement>) => {
+    event.preventDefault();
+    setIsDragging(false);
+    const file = event.dataTransfer.files[0];
+    if (file) handleFile(file);
+  };
+
+  const errors = status ? status.result.errors : [];
+
+  return (
+    <div className={`pivot-file-import ${className || ''}`}>
+      <div
+        className={`pivot-file-drop-zone ${isDragging ? 'pivot-file-drop-zone-active' : ''}`}
+        role="button"
+        tabIndex={0}
+        onClick={() => inputRef.current?.click()}
+        onKeyDown={(event) => {
+          if (event.key === 'Enter' || event.key === ' ') {
+            event.preventDefault();
+            inputRef.current?.click();
+          }
+        }}
+        onDragOver={(event) => {
+          event.preventDefault();
+          setIsDragging(true);
+        }}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={handleDrop}
+      >
+        Drop a CSV or JSON file here, or click to choose one
+        <input
+          ref={inputRef}
+          type="file"
+          accept=".csv,.tsv,.txt,.json,text/csv,application/json"
+          style={{ display: 'none' }}
+          onChange={(event) => {
+            const file = event.target.files && event.target.files[0];
+            if (file) handleFile(file);
+            event.target.value = '';
+          }}
+        />
+      </div>
+
+      {status && (
+        <p className="pivot-file-import-status">
+          {status.fileName}: {status.result.data.length} rows, {status.result.fields.length} fields
+          {errors.length > 0 && `, ${errors.length} problem${errors.length === 1 ? '' : 's'}`}
+        </p>
+      )}
+      {failure && <p className="pivot-file-import-error">Could not read file: {failure}</p>}
+      {errors.length > 0 && (
+        <ul className="pivot-file-import-errors">
+          {errors.slice(0, MAX_LISTED_ERRORS).map((error, index) => (
+            <li key={index}>
+              {error.row > 0 ? `Row ${error.row}${error.column ? ` (${error.column})` : ''}: ` : ''}{error.message}
+            </li>
+          ))}
+          {errors.length > MAX_LISTED_ERRORS && <li>…and {errors.length - MAX_LISTED_ERRORS} more</li>}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default PivotFileImport;
@@ -0,0 +1,77 @@
+import React from 'react';
+import { PivotMeasure, formatPivotValue } from './pivot';
+import {
+  PivotConditionalFormat,
+  PivotFormatRange,
+  PivotTheme,
+  getIconBoundaries,
+  getIconSet,
+  getScaleColors
+} from './pivotFormatting';
+
+interface PivotFormatLegendProps {
+  formats: PivotConditionalFormat[];
+  ranges: (PivotFormatRange | null)[];
+  measures: PivotMeasure[];
+  theme: PivotTheme;
+  locale?: string;
+}
+
+const PivotFormatLegend: React.FC<PivotFormatLegendProps> = ({ formats, ranges, measures, theme, locale }) => {
+  // Bounds are formatted like the measure they describe; formats on every measure use the first
+  const formatValue = (format: PivotConditionalFormat, value: number) =>
+    formatPivotValue(value, measures[format.measure ?? 0] || measures[0], locale);
+
+  return (
+    <div className="pivot-format-legend" aria-label="Conditional formatting legend">
+      {formats.map((format, index) => {
+        const range = ranges[index];
+        const title = format.measure !== undefined && measures[format.measure]
+          ? measures[format.measure].label
+          : 'All values';
+
+        return (
+          <div key={index} className="pivot-format-legend-item">
+            <span className="pivot-format-legend-title">{title}</span>
+            {format.type === 'threshold' ? (
+              format.rules.map((rule, ruleIndex) => (
+                <span key={ruleIndex} className="pivot-format-legend-entry">
+                  <span className="pivot-format-legend-swatch" style={{ backgroundColor: rule.color }} />
+                  {rule.operator} {formatValue(format, rule.value)}
+                </span>
+              ))
+            ) : !range ? (
+              <span className="pivot-format-legend-entry">No values</span>
+            ) : format.type === 'colorScale' ? (
+              <span className="pivot-format-legend-entry">
+                {formatValue(format, range.min)}
+                <span
+                  className="pivot-format-legend-scale"
+                  style={{ background: `linear-gradient(to right, ${getScaleColors(format, theme).join(', ')})` }}
+                />
+                {formatValue(format, range.max)}
+              </span>
+            ) : format.type === 'dataBar' ? (
+              <span className="pivot-format-legend-entry">
+                Bars from {formatValue(format, Math.min(range.min, 0))} to {formatValue(format, Math.max(range.max, 0))}
+              </span>
+            ) : (
+              getIconSet(format, theme).map((icon, level) => {
+                const [low, high] = getIconBoundaries(format, range);
+                const bounds = [`< ${formatValue(format, low)}`, `${formatValue(format, low)}–${formatValue(format, high)}`, `≥ ${formatValue(format, high)}`];
+                return (
+                  <span key={level} className="pivot-format-legend-entry">
+                    <span style={{ color: icon.color }} aria-label={icon.label}>{icon.symbol}</span>
+                    {bounds[level]}
+                  </span>
+                );
+              })
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default PivotFormatLegend;
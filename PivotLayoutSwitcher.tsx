@@ -0,0 +1,125 @@
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  PivotLayoutStorage,
+  PivotSavedLayout,
+  loadSavedLayouts,
+  storeSavedLayouts,
+  upsertSavedLayout
+} from './savedLayouts';
+
+interface PivotLayoutSwitcherProps {
+  storage: PivotLayoutStorage;
+  // One key per board view, see getLayoutStorageKey
+  storageKey: string;
+  // The view as it is now, saved under the chosen name
+  current: Omit<PivotSavedLayout, 'name' | 'savedAt'>;
+  // Called with a layout the user picked, and with the last used one once layouts load
+  onLoad: (layout: PivotSavedLayout) => void;
+  className?: string;
+}
+
+const PivotLayoutSwitcher: React.FC<PivotLayoutSwitcherProps> = ({
+  storage,
+  storageKey,
+  current,
+  onLoad,
+  className
+}) => {
+  const [layouts, setLayouts] = useState<PivotSavedLayout[]>([]);
+  const [activeName, setActiveName] = useState('');
+  const [newName, setNewName] = useState('');
+  const [message, setMessage] = useState<string | null>(null);
+  // Read through a ref so a new callback identity does not reload and re-apply the stored layout
+  const onLoadRef = useRef(onLoad);
+  onLoadRef.current = onLoad;
+
+  useEffect(() => {
+    let cancelled = false;
+    setLayouts([]);
+    setActiveName('');
+
+    loadSavedLayouts(storage, storageKey)
+      .then(document => {
+        if (cancelled) return;
+        setLayouts(document.layouts);
+        setMessage(null);
+        const active = document.layouts.find(layout => layout.name === document.active);
+        if (active) {
+          setActiveName(active.name);
+          onLoadRef.current(active);
+        }
+      })
+      .catch(error => {
+        if (cancelled) return;
+        console.error('❌ Error loading saved layouts:', error);
+        setMessage(`Could not load saved layouts: ${error instanceof Error ? error.message : error}`);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [storage, storageKey]);
+
+  const persist = async (next: PivotSavedLayout[], active: string, done: string | null) => {
+    try {
+      await storeSavedLayouts(storage, storageKey, next, active || undefined);
+      setLayouts(next);
+      setActiveName(active);
+      setMessage(done);
+    } catch (error) {
+      console.error('❌ Error saving layouts:', error);
+      setMessage(`Could not save: ${error instanceof Error ? error.message : error}`);
+    }
+  };
+
+  const save = (name: string) => {
+    const layout: PivotSavedLayout = { ...current, name, savedAt: new Date().toISOString() };
+    persist(upsertSavedLayout(layouts, layout), name, `Saved "${name}"`);
+  };
+
+  const handleSelect = (name: string) => {
+    const layout = layouts.find(candidate => candidate.name === name);
+    if (layout) onLoad(layout);
+    persist(layouts, name, null);
+  };
+
+  const handleSaveAs = (event: React.FormEvent) => {
+    event.preventDefault();
+    const name = newName.trim();
+    if (!name) return;
+    save(name);
+    setNewName('');
+  };
+
+  const handleDelete = () => {
+    if (!activeName) return;
+    persist(layouts.filter(layout => layout.name !== activeName), '', `Deleted "${activeName}"`);
+  };
+
+  return (
+    <form className={`pivot-layout-switcher ${className || ''}`} onSubmit={handleSaveAs}>
+      <label>
+        <strong>Layout:</strong>
+        <select value={activeName} onChange={event => handleSelect(event.target.value)}>
+          <option value="">Unsaved layout</option>
+          {layouts.map(layout => (
+            <option key={layout.name} value={layout.name}>{layout.name}</option>
+          ))}
+        </select>
+      </label>
+      <button type="button" disabled={!activeName} onClick={() => save(activeName)}>Save</button>
+      <button type="button" disabled={!activeName} onClick={handleDelete}>Delete</button>
+      <input
+        type="text"
+        aria-label="New layout name"
+        placeholder="New layout name"
+        value={newName}
+        onChange={event => setNewName(event.target.value)}
+      />
+      <button type="submit" disabled={!newName.trim()}>Save as</button>
+      {message && <span className="pivot-layout-switcher-message" role="status">{message}</span>}
+    </form>
+  );
+};
+
+export default PivotLayoutSwitcher;
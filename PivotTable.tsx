@@ -1,62 +1,375 @@
-import React from 'react';
-import { PivotData, PivotConfig, createPivotTable } from './pivot';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import {
+  PivotData,
+  PivotConfig,
+  formatPivotValue,
+  getPivotCellValue,
+  normalizeField
+} from './pivot';
+import { getPivotLayout, PivotAxisEntry, PivotHeaderCell, PivotLayoutColumn, PivotRowLayout } from './pivotLayout';
+import PivotExportMenu from './PivotExportMenu';
+import PivotDrillDown from './PivotDrillDown';
+import PivotFormatLegend from './PivotFormatLegend';
+import PivotVirtualGrid, { PivotCellRender, PivotScrollPosition } from './PivotVirtualGrid';
+import { isAbortError } from './pivotCompute';
+import { usePivotResult } from './usePivotResult';
+import {
+  PivotCellFormat,
+  PivotConditionalFormat,
+  PivotTheme,
+  getCellFormat,
+  getFormatRanges,
+  isFormattedEntry
+} from './pivotFormatting';
 
 interface PivotTableProps {
   data: PivotData[];
   config: PivotConfig;
   className?: string;
+  // Base name for downloaded exports; set showExportMenu to false to hide the menu
+  exportFileName?: string;
+  showExportMenu?: boolean;
+  // Link shown for each item in the drill-down panel
+  getItemUrl?: (item: PivotData) => string | undefined;
+  // Heatmaps, data bars, thresholds and icons on value cells, with a legend unless showFormatLegend is false
+  conditionalFormats?: PivotConditionalFormat[];
+  showFormatLegend?: boolean;
+  theme?: PivotTheme;
+  // Locale for numbers, e.g. the monday user's; the browser's by default
+  locale?: string;
+  // Mount only the cells in view; 'auto' switches on for large grids. Sizes are in pixels.
+  virtualized?: boolean | 'auto';
+  height?: number;
+  rowHeight?: number;
+  columnWidth?: number;
+  rowHeaderWidth?: number;
+  // Controls the header-click sort, e.g. to restore a saved layout; uncontrolled when undefined
+  columnSort?: PivotColumnSort | null;
+  onColumnSortChange?: (sort: PivotColumnSort | null) => void;
 }
 
-const PivotTable: React.FC<PivotTableProps> = ({ data, config, className }) => {
-  const pivotResult = createPivotTable(data, config);
-  const { data: pivotData, rowHeaders, columnHeaders } = pivotResult;
+// Rows re-sorted by the values under one clicked column header
+export interface PivotColumnSort {
+  key: string;
+  measure: number;
+  order: 'asc' | 'desc';
+}
+
+// Above this many value cells the 'auto' mode windows the grid
+const VIRTUALIZE_CELL_THRESHOLD = 2000;
+
+// The cell whose items the drill-down panel lists; items load from the worker
+interface DrillDownCell {
+  rowKey: string;
+  columnKey: string;
+  title: string;
+  items: PivotData[] | null;
+}
+
+const PivotTable: React.FC<PivotTableProps> = ({
+  data,
+  config,
+  className,
+  exportFileName,
+  showExportMenu = true,
+  getItemUrl,
+  conditionalFormats = [],
+  showFormatLegend = true,
+  theme = 'light',
+  locale,
+  virtualized = 'auto',
+  height = 500,
+  rowHeight = 36,
+  columnWidth = 120,
+  rowHeaderWidth = 160,
+  columnSort: controlledSort,
+  onColumnSortChange
+}) => {
+  const [uncontrolledSort, setUncontrolledSort] = useState<PivotColumnSort | null>(null);
+  const columnSort = controlledSort === undefined ? uncontrolledSort : controlledSort;
+  const setColumnSort = (sort: PivotColumnSort | null) => {
+    setUncontrolledSort(sort);
+    if (onColumnSortChange) onColumnSortChange(sort);
+  };
+  const [drillDown, setDrillDown] = useState<DrillDownCell | null>(null);
+  // Outlives the windowed grid, which remounts when the result is briefly empty or fails
+  const scrollPosition = useRef<PivotScrollPosition>({ top: 0, left: 0 });
+  const effectiveConfig: PivotConfig = useMemo(() => (columnSort
+    ? {
+      ...config,
+      rows: config.rows.map(field => ({
+        ...normalizeField(field),
+        sort: { by: 'value' as const, order: columnSort.order, measure: columnSort.measure, crossKey: columnSort.key }
+      }))
+    }
+    : config), [config, columnSort]);
 
-  if (pivotData.length === 0) {
+  const { result: pivotResult, error: computeError, isComputing, getCellItems } = usePivotResult(data, effectiveConfig);
+
+  const loadDrillDownItems = (rowKey: string, columnKey: string) => {
+    getCellItems(rowKey, columnKey)
+      .then(items => setDrillDown(current =>
+        current && current.rowKey === rowKey && current.columnKey === columnKey ? { ...current, items } : current
+      ))
+      .catch(error => {
+        if (!isAbortError(error)) console.error('❌ Error loading drill-down items:', error);
+      });
+  };
+
+  // An open item list follows live updates
+  useEffect(() => {
+    if (drillDown) loadDrillDownItems(drillDown.rowKey, drillDown.columnKey);
+  }, [pivotResult]);
+
+  const layout = useMemo(
+    () => (pivotResult && pivotResult.data.length > 0 ? getPivotLayout(pivotResult) : null),
+    [pivotResult]
+  );
+  const formatRanges = useMemo(
+    () => (pivotResult && layout ? getFormatRanges(pivotResult, layout, conditionalFormats) : []),
+    [pivotResult, layout, conditionalFormats]
+  );
+
+  if (computeError) {
     return (
-      <div className={`pivot-table-empty ${className || ''}`}>
+      <div className={`pivot-table-empty pivot-table-error pivot-table-theme-${theme} ${className || ''}`} role="alert">
+        <p>{computeError}</p>
+      </div>
+    );
+  }
+
+  // Until the first result arrives; later computations keep the previous result on screen
+  if (!pivotResult) {
+    return (
+      <div className={`pivot-table-empty pivot-table-loading pivot-table-theme-${theme} ${className || ''}`} role="status">
+        <p>Calculating…</p>
+      </div>
+    );
+  }
+
+  const showDrillDown = (rowKey: string, columnKey: string, title: string) => {
+    setDrillDown({ rowKey, columnKey, title, items: null });
+    loadDrillDownItems(rowKey, columnKey);
+  };
+
+  // Clicking a header sorts descending, then ascending, then back to the configured order
+  const handleHeaderClick = (header: PivotHeaderCell) => {
+    const measure = header.measure ?? 0;
+    const isCurrent = columnSort && columnSort.key === header.key && columnSort.measure === measure;
+    if (!isCurrent) {
+      setColumnSort({ key: header.key, measure, order: 'desc' });
+    } else if (columnSort.order === 'desc') {
+      setColumnSort({ ...columnSort, order: 'asc' });
+    } else {
+      setColumnSort(null);
+    }
+  };
+
+  const sortIndicator = (header: PivotHeaderCell) => {
+    if (!columnSort || columnSort.key !== header.key || columnSort.measure !== (header.measure ?? 0)) return '';
+    return columnSort.order === 'desc' ? ' ▼' : ' ▲';
+  };
+
+  if (!layout) {
+    return (
+      <div className={`pivot-table-empty pivot-table-theme-${theme} ${className || ''}`} aria-busy={isComputing}>
         <p>No data to display</p>
       </div>
     );
   }
 
+  const getFormat = (row: PivotAxisEntry, column: PivotLayoutColumn, value: number): PivotCellFormat | null => {
+    const formats = conditionalFormats.filter(format =>
+      isFormattedEntry(format, row.type, pivotResult.rowFields.length) &&
+      isFormattedEntry(format, column.type, pivotResult.columnFields.length)
+    );
+    if (formats.length === 0) return null;
+    return getCellFormat(value, column.measure, formats, formats.map(format =>
+      formatRanges[conditionalFormats.indexOf(format)]
+    ), theme);
+  };
+
+  const corner = pivotResult.rowFields.join(' / ');
+  const isVirtualized = virtualized === 'auto'
+    ? layout.rows.length * layout.columns.length > VIRTUALIZE_CELL_THRESHOLD
+    : virtualized;
+
+  const renderColumnHeader = (header: PivotHeaderCell): PivotCellRender => ({
+    className: `pivot-table-column-header pivot-table-sortable ${headerClassName(header)}`,
+    content: <>{header.label}{sortIndicator(header)}</>,
+    title: 'Sort rows by this column',
+    onClick: () => handleHeaderClick(header)
+  });
+
+  const renderRowHeader = (header: PivotHeaderCell): PivotCellRender => ({
+    className: `pivot-table-row-header ${headerClassName(header)}`,
+    content: header.label
+  });
+
+  const renderValue = (row: PivotRowLayout, column: PivotLayoutColumn): PivotCellRender => {
+    const value = getPivotCellValue(pivotResult, row.entry.key, column.key, column.measure);
+    const format = getFormat(row.entry, column, value);
+    // Table rows carry the subtotal and total styles; windowed cells have no row element to inherit from
+    const rowClass = isVirtualized ? virtualRowClassName(row.entry.type) : '';
+    return {
+      className: `pivot-table-cell pivot-table-drillable ${column.type !== 'leaf' ? 'pivot-table-total-cell' : ''} ${rowClass}`,
+      style: format ? cellStyle(format) : undefined,
+      title: 'Show the items in this cell',
+      onClick: () => showDrillDown(row.entry.key, column.key, `${row.entry.label} × ${column.label}`),
+      content: (
+        <>
+          {format && format.icon && (
+            <span className="pivot-table-cell-icon" style={{ color: format.icon.color }} aria-label={format.icon.label}>
+              {format.icon.symbol}
+            </span>
+          )}
+          {formatPivotValue(value, pivotResult.measures[column.measure], locale)}
+        </>
+      )
+    };
+  };
+
   return (
-    <div className={`pivot-table-container ${className || ''}`}>
-      <table className="pivot-table">
-        <thead>
-          <tr>
-            <th className="pivot-table-header-corner">
-              {config.rows.join(' / ')}
-            </th>
-            {columnHeaders.map((header, index) => (
-              <th key={index} className="pivot-table-column-header">
-                {header}
-              </th>
+    <div
+      className={`pivot-table-container pivot-table-theme-${theme} ${isComputing ? 'pivot-table-computing' : ''} ${className || ''}`}
+      aria-busy={isComputing}
+    >
+      {showExportMenu && (
+        <div className="pivot-table-toolbar">
+          <PivotExportMenu result={pivotResult} fileName={exportFileName} locale={locale} />
+        </div>
+      )}
+      {isVirtualized ? (
+        <PivotVirtualGrid
+          layout={layout}
+          corner={corner}
+          renderValue={renderValue}
+          renderColumnHeader={renderColumnHeader}
+          renderRowHeader={renderRowHeader}
+          scrollPosition={scrollPosition}
+          height={height}
+          rowHeight={rowHeight}
+          columnWidth={columnWidth}
+          rowHeaderWidth={rowHeaderWidth}
+        />
+      ) : (
+        <table className="pivot-table">
+          <thead>
+            {layout.columnHeaderRows.map((headerRow, level) => (
+              <tr key={level}>
+                {level === 0 && (
+                  <th
+                    className="pivot-table-header-corner"
+                    rowSpan={layout.columnHeaderRows.length}
+                    colSpan={layout.rowLevels}
+                  >
+                    {corner}
+                  </th>
+                )}
+                {headerRow.map((header, index) => {
+                  const cell = renderColumnHeader(header);
+                  return (
+                    <th
+                      key={`${header.type}-${index}`}
+                      className={cell.className}
+                      rowSpan={header.rowSpan}
+                      colSpan={header.colSpan}
+                      onClick={cell.onClick}
+                      title={cell.title}
+                    >
+                      {cell.content}
+                    </th>
+                  );
+                })}
+              </tr>
+            ))}
+          </thead>
+          <tbody>
+            {layout.rows.map((row, rowIndex) => (
+              <tr key={rowIndex} className={rowClassName(row.entry.type)}>
+                {row.headers.map((header, index) => {
+                  const cell = renderRowHeader(header);
+                  return (
+                    <th
+                      key={`${header.type}-${index}`}
+                      className={cell.className}
+                      rowSpan={header.rowSpan}
+                      colSpan={header.colSpan}
+                    >
+                      {cell.content}
+                    </th>
+                  );
+                })}
+                {layout.columns.map((column, cellIndex) => {
+                  const cell = renderValue(row, column);
+                  return (
+                    <td
+                      key={cellIndex}
+                      className={cell.className}
+                      style={cell.style}
+                      onClick={cell.onClick}
+                      title={cell.title}
+                    >
+                      {cell.content}
+                    </td>
+                  );
+                })}
+              </tr>
             ))}
-          </tr>
-        </thead>
-        <tbody>
-          {pivotData.map((row, rowIndex) => (
-            <tr key={rowIndex}>
-              <th className="pivot-table-row-header">
-                {rowHeaders[rowIndex]}
-              </th>
-              {row.map((cell, cellIndex) => (
-                <td key={cellIndex} className="pivot-table-cell">
-                  {typeof cell === 'number' ? formatNumber(cell) : cell}
-                </td>
-              ))}
-            </tr>
-          ))}
-        </tbody>
-      </table>
+          </tbody>
+        </table>
+      )}
+      {showFormatLegend && conditionalFormats.length > 0 && (
+        <PivotFormatLegend
+          formats={conditionalFormats}
+          ranges={formatRanges}
+          measures={pivotResult.measures}
+          theme={theme}
+          locale={locale}
+        />
+      )}
+      {drillDown && drillDown.items && (
+        <PivotDrillDown
+          title={drillDown.title}
+          items={drillDown.items}
+          onClose={() => setDrillDown(null)}
+          getItemUrl={getItemUrl}
+        />
+      )}
     </div>
   );
 };
 
-function formatNumber(value: number): string {
-  if (value === 0) return '0';
-  if (Number.isInteger(value)) return value.toString();
-  return value.toFixed(2);
+// Data bars are drawn as a gradient over the cell background so the value stays on top
+function cellStyle(format: PivotCellFormat): React.CSSProperties {
+  const { bar } = format;
+  return {
+    backgroundColor: format.backgroundColor,
+    color: format.color,
+    backgroundImage: bar && bar.width > 0
+      ? `linear-gradient(to right, transparent ${bar.start}%, ${bar.color} ${bar.start}%, ` +
+        `${bar.color} ${bar.start + bar.width}%, transparent ${bar.start + bar.width}%)`
+      : undefined
+  };
+}
+
+function headerClassName(header: PivotHeaderCell): string {
+  if (header.type === 'total') return 'pivot-table-grand-total-header';
+  if (header.type === 'subtotal') return 'pivot-table-subtotal-header';
+  if (header.type === 'measure') return 'pivot-table-measure-header';
+  return '';
+}
+
+function virtualRowClassName(type: PivotAxisEntry['type']): string {
+  if (type === 'total') return 'pivot-virtual-grand-total';
+  if (type === 'subtotal') return 'pivot-table-total-cell';
+  return '';
+}
+
+function rowClassName(type: PivotAxisEntry['type']): string {
+  if (type === 'total') return 'pivot-table-grand-total-row';
+  if (type === 'subtotal') return 'pivot-table-subtotal-row';
+  return '';
 }
 
-export default PivotTable; 
\ No newline at end of file
+export default PivotTable;
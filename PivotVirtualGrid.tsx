@@ -0,0 +1,218 @@
+import React, { useEffect, useLayoutEffect, useMemo, useRef, useState } from 'react';
+import {
+  PivotHeaderCell,
+  PivotLayout,
+  PivotLayoutColumn,
+  PivotPlacedHeader,
+  PivotRowLayout,
+  placeColumnHeaders,
+  placeRowHeaders
+} from './pivotLayout';
+
+// What PivotTable decides about a cell; the grid only positions it
+export interface PivotCellRender {
+  className: string;
+  content: React.ReactNode;
+  style?: React.CSSProperties;
+  title?: string;
+  onClick?: () => void;
+}
+
+export interface PivotScrollPosition {
+  top: number;
+  left: number;
+}
+
+interface PivotVirtualGridProps {
+  layout: PivotLayout;
+  corner: string;
+  renderValue: (row: PivotRowLayout, column: PivotLayoutColumn) => PivotCellRender;
+  renderColumnHeader: (header: PivotHeaderCell) => PivotCellRender;
+  renderRowHeader: (header: PivotHeaderCell) => PivotCellRender;
+  // Kept by the caller so the position survives remounts, e.g. after an empty result
+  scrollPosition: React.MutableRefObject<PivotScrollPosition>;
+  height: number;
+  rowHeight: number;
+  columnWidth: number;
+  // Width of one row header level
+  rowHeaderWidth: number;
+}
+
+// Rows and columns mounted beyond each edge of the viewport, so fast scrolling shows no gaps
+const OVERSCAN = 4;
+// Assumed until the viewport is measured, so the first render does not mount every column
+const DEFAULT_VIEWPORT_WIDTH = 1200;
+
+// Only the cells in view are mounted. Column headers stick to the top and row headers to the left,
+// both drawn as layers over the absolutely positioned value cells.
+const PivotVirtualGrid: React.FC<PivotVirtualGridProps> = ({
+  layout,
+  corner,
+  renderValue,
+  renderColumnHeader,
+  renderRowHeader,
+  scrollPosition,
+  height,
+  rowHeight,
+  columnWidth,
+  rowHeaderWidth
+}) => {
+  const viewportRef = useRef<HTMLDivElement>(null);
+  const [viewport, setViewport] = useState({ ...scrollPosition.current, width: 0, height });
+
+  const rowHeaders = useMemo(() => placeRowHeaders(layout), [layout]);
+  const columnHeaders = useMemo(() => placeColumnHeaders(layout), [layout]);
+
+  const headerHeight = layout.columnHeaderRows.length * rowHeight;
+  const frozenWidth = layout.rowLevels * rowHeaderWidth;
+  const bodyHeight = layout.rows.length * rowHeight;
+  const totalWidth = frozenWidth + layout.columns.length * columnWidth;
+
+  useLayoutEffect(() => {
+    const element = viewportRef.current;
+    if (!element) return;
+    element.scrollTop = scrollPosition.current.top;
+    element.scrollLeft = scrollPosition.current.left;
+    setViewport({
+      top: element.scrollTop,
+      left: element.scrollLeft,
+      width: element.clientWidth,
+      height: element.clientHeight
+    });
+  }, []);
+
+  useEffect(() => {
+    const element = viewportRef.current;
+    if (!element || typeof ResizeObserver === 'undefined') return;
+    const observer = new ResizeObserver(() => {
+      setViewport(current => ({ ...current, width: element.clientWidth, height: element.clientHeight }));
+    });
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, []);
+
+  const handleScroll = (event: React.UIEvent<HTMLDivElement>) => {
+    const { scrollTop, scrollLeft, clientWidth, clientHeight } = event.currentTarget;
+    scrollPosition.current = { top: scrollTop, left: scrollLeft };
+    setViewport({ top: scrollTop, left: scrollLeft, width: clientWidth, height: clientHeight });
+  };
+
+  // Visible body rows and columns, in layout indices
+  const firstRow = Math.max(0, Math.floor(viewport.top / rowHeight) - OVERSCAN);
+  const lastRow = Math.min(
+    layout.rows.length,
+    Math.ceil((viewport.top + viewport.height - headerHeight) / rowHeight) + OVERSCAN
+  );
+  const firstColumn = Math.max(0, Math.floor(viewport.left / columnWidth) - OVERSCAN);
+  const lastColumn = Math.min(
+    layout.columns.length,
+    Math.ceil((viewport.left + (viewport.width || DEFAULT_VIEWPORT_WIDTH) - frozenWidth) / columnWidth) + OVERSCAN
+  );
+
+  const isRowVisible = (header: PivotPlacedHeader) =>
+    header.row < lastRow && header.row + header.rowSpan > firstRow;
+  const isColumnVisible = (header: PivotPlacedHeader) =>
+    header.column < lastColumn && header.column + header.colSpan > firstColumn;
+
+  const cells: React.ReactNode[] = [];
+  for (let r = firstRow; r < lastRow; r++) {
+    const row = layout.rows[r];
+    for (let c = firstColumn; c < lastColumn; c++) {
+      const cell = renderValue(row, layout.columns[c]);
+      cells.push(
+        <div
+          key={`${r}-${c}`}
+          role="gridcell"
+          aria-rowindex={layout.columnHeaderRows.length + r + 1}
+          aria-colindex={layout.rowLevels + c + 1}
+          className={`pivot-virtual-cell ${cell.className}`}
+          style={{
+            ...cell.style,
+            top: headerHeight + r * rowHeight,
+            left: frozenWidth + c * columnWidth,
+            width: columnWidth,
+            height: rowHeight,
+            lineHeight: `${rowHeight - 1}px`
+          }}
+          title={cell.title}
+          onClick={cell.onClick}
+        >
+          {cell.content}
+        </div>
+      );
+    }
+  }
+
+  return (
+    <div
+      ref={viewportRef}
+      className="pivot-table-viewport"
+      style={{ height }}
+      onScroll={handleScroll}
+      role="grid"
+      aria-rowcount={layout.columnHeaderRows.length + layout.rows.length}
+      aria-colcount={layout.rowLevels + layout.columns.length}
+    >
+      <div className="pivot-virtual-canvas" style={{ width: totalWidth, height: headerHeight + bodyHeight }}>
+        <div className="pivot-virtual-column-headers" style={{ width: totalWidth, height: headerHeight }}>
+          <div
+            role="columnheader"
+            className="pivot-virtual-cell pivot-virtual-corner pivot-table-header-corner"
+            style={{ width: frozenWidth, height: headerHeight, lineHeight: `${rowHeight - 1}px` }}
+          >
+            {corner}
+          </div>
+          {columnHeaders.filter(isColumnVisible).map(header => {
+            const cell = renderColumnHeader(header);
+            return (
+              <div
+                key={`${header.row}-${header.column}`}
+                role="columnheader"
+                className={`pivot-virtual-cell ${header.colSpan > 1 ? 'pivot-virtual-span' : ''} ${cell.className}`}
+                style={{
+                  top: header.row * rowHeight,
+                  left: frozenWidth + header.column * columnWidth,
+                  width: header.colSpan * columnWidth,
+                  height: header.rowSpan * rowHeight,
+                  lineHeight: `${rowHeight - 1}px`
+                }}
+                title={cell.title}
+                onClick={cell.onClick}
+              >
+                {/* Long spans keep their label in view while scrolling sideways */}
+                <span className="pivot-virtual-label" style={{ left: frozenWidth }}>{cell.content}</span>
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="pivot-virtual-row-headers" style={{ width: frozenWidth, height: bodyHeight }}>
+          {rowHeaders.filter(isRowVisible).map(header => {
+            const cell = renderRowHeader(header);
+            return (
+              <div
+                key={`${header.row}-${header.column}`}
+                role="rowheader"
+                className={`pivot-virtual-cell ${header.rowSpan > 1 ? 'pivot-virtual-span' : ''} ${cell.className}`}
+                style={{
+                  top: header.row * rowHeight,
+                  left: header.column * rowHeaderWidth,
+                  width: header.colSpan * rowHeaderWidth,
+                  height: header.rowSpan * rowHeight,
+                  lineHeight: `${rowHeight - 1}px`
+                }}
+                title={cell.title}
+              >
+                <span className="pivot-virtual-label" style={{ top: headerHeight }}>{cell.content}</span>
+              </div>
+            );
+          })}
+        </div>
+
+        {cells}
+      </div>
+    </div>
+  );
+};
+
+export default PivotVirtualGrid;
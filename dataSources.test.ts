@@ -0,0 +1,244 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createPivotTable } from './pivot';
+import {
+  createMcpSource,
+  createMondaySdkSource,
+  createPostMessageSource,
+  createStaticSource,
+  getMondayItemUrl,
+  getSourceBoardId,
+  SOURCE_BOARD_FIELD,
+  PivotDataChange,
+  resolveDataSource,
+  SOURCE_BOARD_ID_FIELD
+} from './dataSources';
+
+// The sources report what they load on the console; keep the test output to the results
+beforeEach(() => {
+  vi.spyOn(console, 'log').mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  vi.unstubAllGlobals();
+  vi.useRealTimers();
+});
+
+// Two boards with the same name, as copies of a template usually are
+const boards: Record<string, { id: string; name: string; items: string[] }> = {
+  '11': { id: '11', name: 'Sprint', items: ['101', '102'] },
+  '22': { id: '22', name: 'Sprint', items: ['201'] }
+};
+
+const sdk = {
+  api: async (query: string, { variables }: { variables: Record<string, any> }) => {
+    if (query.includes('columns')) {
+      const columns = [{ title: 'Status', type: 'status' }, { title: 'Budget', type: 'numbers' }];
+      return { data: { boards: variables.boardId.map((id: string) => ({ id, columns })) } };
+    }
+    if (query.includes('items(ids')) {
+      // 999 stands for an item deleted before it could be loaded
+      const items = variables.ids.filter((id: string) => id !== '999').map((id: string) => ({ id, name: `Item ${id}`, column_values: [] }));
+      return { data: { items } };
+    }
+    const board = boards[variables.boardId[0]];
+    const items = board.items.map(id => ({ id, name: `Item ${id}`, board: { id: board.id, name: board.name }, column_values: [] }));
+    return { data: { boards: [{ items_page: { cursor: null, items } }] } };
+  }
+};
+
+describe('multi-board sources', () => {
+  it('keeps boards with the same name apart and links items to their own board', async () => {
+    const data = await createMondaySdkSource([11, 22], sdk).fetch();
+    expect(data.map(item => item[SOURCE_BOARD_ID_FIELD])).toEqual(['11', '11', '22']);
+
+    const result = createPivotTable(data, { rows: [SOURCE_BOARD_FIELD], columns: [], values: ['id'], aggregation: 'count' });
+    expect(result.rowTree.map(node => node.label)).toEqual(['Sprint (#11)', 'Sprint (#22)']);
+
+    const urls = data.map(item => getMondayItemUrl(getSourceBoardId(item, [11, 22])!, item.id));
+    expect(urls).toEqual([
+      'https://monday.com/boards/11/pulses/101',
+      'https://monday.com/boards/11/pulses/102',
+      'https://monday.com/boards/22/pulses/201'
+    ]);
+  });
+
+  it('links items of a single board without tagging them', async () => {
+    const data = await createMondaySdkSource(22, sdk).fetch();
+    expect(data[0]).not.toHaveProperty(SOURCE_BOARD_FIELD);
+    expect(getSourceBoardId(data[0], [22])).toBe(22);
+  });
+});
+
+// The SDK with its event and context API; `emit` fires what monday would send the view
+function createFakeSdk() {
+  const listeners = new Map<string, (payload: any) => void>();
+  return {
+    api: vi.fn(sdk.api),
+    listen: vi.fn((type: string, callback: (payload: any) => void) => {
+      listeners.set(type, callback);
+      return () => listeners.delete(type);
+    }),
+    get: vi.fn(async (type: string) => (type === 'filter' ? { data: { term: 'web', rules: [] } } : { data: [101] })),
+    emit: (type: string, payload: unknown) => listeners.get(type)?.(payload),
+    listeners
+  };
+}
+
+// A browser window, framed by a monday page unless `framed` is false
+function stubWindow(framed = true) {
+  const parent = { postMessage: vi.fn() };
+  const fake = Object.assign(new EventTarget(), {
+    location: { hostname: 'localhost', href: 'http://localhost:5173/' },
+    parent: parent as unknown,
+    top: parent as unknown,
+    monday: undefined as unknown,
+    mondaySDKLoadPromise: undefined as unknown
+  });
+  if (!framed) fake.parent = fake.top = fake;
+  vi.stubGlobal('window', fake);
+  vi.stubGlobal('document', { referrer: '' });
+  return { window: fake, parent };
+}
+
+describe('createStaticSource', () => {
+  it('serves its items and infers their schema', async () => {
+    const source = createStaticSource([{ name: 'A', budget: 5 }], 'sample');
+    expect(source.name).toBe('sample');
+    expect(await source.fetch()).toEqual([{ name: 'A', budget: 5 }]);
+    expect(await source.schema()).toEqual([{ name: 'name', type: 'text' }, { name: 'budget', type: 'number' }]);
+  });
+});
+
+describe('createMondaySdkSource', () => {
+  it('reads the schema from the board columns', async () => {
+    expect(await createMondaySdkSource(11, createFakeSdk()).schema()).toEqual([
+      { name: 'id', type: 'text' },
+      { name: 'name', type: 'text' },
+      { name: 'Status', type: 'text' },
+      { name: 'Budget', type: 'number' }
+    ]);
+  });
+
+  it('turns board events and filter changes into data changes until unsubscribed', async () => {
+    const fake = createFakeSdk();
+    const changes: PivotDataChange[] = [];
+    const unsubscribe = createMondaySdkSource(11, fake).subscribe(change => changes.push(change));
+
+    // A filter already set when the view opens is read once
+    await vi.waitFor(() => expect(changes).toEqual([{ type: 'filter', ids: ['101'] }]));
+
+    fake.emit('itemIds', { data: [102] });
+    fake.emit('events', { data: { type: 'change_column_value', itemIds: [102, 999] } });
+    fake.emit('events', { data: { type: 'delete_pulse', itemId: 101 } });
+    fake.emit('events', { data: { type: 'new_column' } });
+    await vi.waitFor(() => expect(changes).toHaveLength(6));
+    // Changed items arrive after their fetch, so last
+    expect(changes.slice(1)).toEqual([
+      { type: 'filter', ids: ['102'] },
+      { type: 'remove', ids: ['101'] },
+      { type: 'reset' },
+      { type: 'upsert', items: [{ id: '102', name: 'Item 102' }] },
+      { type: 'remove', ids: ['999'] }
+    ]);
+
+    unsubscribe();
+    expect(fake.listeners.size).toBe(0);
+  });
+});
+
+describe('createMcpSource', () => {
+  it('sends GraphQL through the MCP tool call and reads its result', async () => {
+    const fetchMock = vi.fn(async (_url: string, init: RequestInit) => {
+      const { params } = JSON.parse(String(init.body));
+      const result = await sdk.api(params.arguments.query, { variables: JSON.parse(params.arguments.variables) });
+      return { ok: true, json: async () => ({ jsonrpc: '2.0', result }) };
+    });
+    vi.stubGlobal('fetch', fetchMock);
+
+    const data = await createMcpSource(22, 'http://mcp.test/rpc').fetch();
+    expect(data).toEqual([{ id: '201', name: 'Item 201' }]);
+    expect(fetchMock.mock.calls[0][0]).toBe('http://mcp.test/rpc');
+    expect(JSON.parse(String(fetchMock.mock.calls[0][1].body))).toMatchObject({ method: 'tools/call', params: { name: 'mcp_monday-api-mcp_all_monday_api' } });
+  });
+
+  it('rejects on HTTP and MCP errors', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => ({ ok: false, status: 502, statusText: 'Bad Gateway' })));
+    await expect(createMcpSource(22).fetch()).rejects.toThrow('HTTP 502: Bad Gateway');
+
+    vi.stubGlobal('fetch', vi.fn(async () => ({ ok: true, json: async () => ({ error: { message: 'no token' } }) })));
+    await expect(createMcpSource(22).fetch()).rejects.toThrow('MCP Error: no token');
+  });
+});
+
+describe('createPostMessageSource', () => {
+  const response = { type: 'BOARD_DATA_RESPONSE', data: [{ id: '7', name: 'Launch', column_values: [] }] };
+
+  it('asks the host page for the items and maps its answer', async () => {
+    const { window, parent } = stubWindow();
+    const source = createPostMessageSource(11);
+    const fetching = source.fetch();
+
+    expect(parent.postMessage).toHaveBeenCalledWith({ type: 'REQUEST_BOARD_DATA', boardId: 11, boardIds: [11] }, '*');
+    window.dispatchEvent(new MessageEvent('message', { data: { type: 'OTHER' } }));
+    window.dispatchEvent(new MessageEvent('message', { data: response }));
+    expect(await fetching).toEqual([{ id: '7', name: 'Launch' }]);
+    expect(await source.schema()).toEqual([{ name: 'id', type: 'text' }, { name: 'name', type: 'text' }]);
+  });
+
+  it('gives up after the timeout and when the signal aborts', async () => {
+    vi.useFakeTimers();
+    stubWindow();
+    const timingOut = createPostMessageSource(11, 1000).fetch();
+    const expectation = expect(timingOut).rejects.toThrow('Timeout waiting for Monday.com platform response');
+    await vi.advanceTimersByTimeAsync(1000);
+    await expectation;
+
+    const controller = new AbortController();
+    const aborted = createPostMessageSource(11).fetch({ signal: controller.signal });
+    controller.abort();
+    await expect(aborted).rejects.toMatchObject({ name: 'AbortError' });
+  });
+
+  it('switches to the SDK when it finishes loading before the host answers', async () => {
+    vi.useFakeTimers();
+    const { window } = stubWindow();
+    const fetching = createPostMessageSource(22).fetch();
+
+    await vi.advanceTimersByTimeAsync(300);
+    window.monday = createFakeSdk();
+    await vi.advanceTimersByTimeAsync(100);
+    expect(await fetching).toEqual([{ id: '201', name: 'Item 201' }]);
+  });
+});
+
+describe('resolveDataSource', () => {
+  it('prefers an SDK that is already there', async () => {
+    const { window } = stubWindow();
+    window.monday = createFakeSdk();
+    expect((await resolveDataSource({ boardId: 11 })).name).toBe('monday-sdk');
+  });
+
+  it('waits for an SDK that is still loading', async () => {
+    const { window } = stubWindow();
+    const fake = createFakeSdk();
+    window.mondaySDKLoadPromise = Promise.resolve(fake);
+    const source = await resolveDataSource({ boardId: 11 });
+    expect(source.name).toBe('monday-sdk');
+    await source.fetch();
+    expect(fake.api).toHaveBeenCalled();
+  });
+
+  it('falls back to postMessage inside monday when the SDK fails to load', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    const { window } = stubWindow();
+    window.mondaySDKLoadPromise = Promise.reject(new Error('blocked'));
+    expect((await resolveDataSource({ boardId: 11 })).name).toBe('post-message');
+  });
+
+  it('uses MCP outside monday', async () => {
+    expect((await resolveDataSource({ boardId: 11 })).name).toBe('mcp');
+    stubWindow(false);
+    expect((await resolveDataSource({ boardId: 11 })).name).toBe('mcp');
+  });
+});
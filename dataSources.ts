@@ -0,0 +1,467 @@
+import { PivotData, PivotFieldSchema, inferFieldSchema } from './pivot';
+import { getColumnFieldType, mapMondayItem, MondayItem } from './mondayColumns';
+import { fetchBoardItems, FetchBoardItemsOptions, fetchItemsByIds, MondayApiCall } from './mondayFetch';
+import type { PivotTheme } from './pivotFormatting';
+
+export type PivotFetchOptions = Pick<FetchBoardItemsOptions, 'signal' | 'onProgress'>;
+
+// What a source reports when its data changed after the last fetch: items added or edited, items
+// gone, the ids the board filter now shows (null when unfiltered), or a change it cannot describe
+// item by item, after which the data should be fetched again
+export type PivotDataChange =
+  | { type: 'reset' }
+  | { type: 'upsert'; items: PivotData[] }
+  | { type: 'remove'; ids: string[] }
+  | { type: 'filter'; ids: string[] | null };
+
+export type PivotDataListener = (change: PivotDataChange) => void;
+
+// Anything that can feed items into the pivot: a monday board, a file, an in-memory array
+export interface PivotDataSource {
+  readonly name: string;
+  fetch(options?: PivotFetchOptions): Promise<PivotData[]>;
+  schema(): Promise<PivotFieldSchema[]>;
+  // Returns an unsubscribe function; sources without change notifications never call the listener
+  subscribe(listener: PivotDataListener): () => void;
+}
+
+export interface ResolveDataSourceOptions {
+  // One board, or several whose items are merged into one data set
+  boardId: number | number[];
+  mcpEndpoint?: string;
+  postMessageTimeout?: number;
+}
+
+const DEFAULT_MCP_ENDPOINT = 'http://localhost:19626/rpc';
+const DEFAULT_POST_MESSAGE_TIMEOUT = 10000;
+const SDK_POLL_INTERVAL = 100;
+
+// Added to items merged from several boards: the board each came from, as a label that stays
+// unique when boards share a name, and its id
+export const SOURCE_BOARD_FIELD = 'board';
+export const SOURCE_BOARD_ID_FIELD = 'boardId';
+
+const COLUMNS_QUERY = `
+  query ($boardId: [ID!]) {
+    boards(ids: $boardId) {
+      id
+      columns {
+        title
+        type
+      }
+    }
+  }
+`;
+
+// Picks the best available transport: the monday SDK (now or once it loads), postMessage
+// to the hosting monday page, or the local MCP bridge during development
+export async function resolveDataSource(options: ResolveDataSourceOptions): Promise<PivotDataSource> {
+  const { boardId } = options;
+
+  if (isMondaySDKAvailable()) {
+    console.log('🎉 Monday.com SDK is available immediately!');
+    return createMondaySdkSource(boardId);
+  }
+
+  if (typeof window !== 'undefined' && (window as any).mondaySDKLoadPromise) {
+    console.log('⏳ Waiting for Monday.com SDK to load...');
+    try {
+      const monday = await (window as any).mondaySDKLoadPromise;
+      console.log('🎉 Monday.com SDK loaded via promise!');
+      return createMondaySdkSource(boardId, monday);
+    } catch (error) {
+      console.error('❌ Error waiting for Monday.com SDK:', error);
+    }
+  }
+
+  if (isInsideMondayPlatform()) {
+    console.log('🔧 Inside Monday.com platform but SDK unavailable, using postMessage...');
+    return createPostMessageSource(boardId, options.postMessageTimeout);
+  }
+
+  console.log('🔗 Using MCP connection for local development...');
+  return createMcpSource(boardId, options.mcpEndpoint);
+}
+
+export function isInsideMondayPlatform(): boolean {
+  return typeof window !== 'undefined' && (
+    window.location.hostname.includes('monday.com') ||
+    window.location.hostname.includes('mondayapps.com') ||
+    window.location.href.includes('monday.com') ||
+    document.referrer.includes('monday.com') ||
+    window.parent !== window // Running in iframe
+  );
+}
+
+export function isMondaySDKAvailable(): boolean {
+  return typeof window !== 'undefined' &&
+    !!(window as any).monday &&
+    typeof (window as any).monday.api === 'function';
+}
+
+// monday redirects this account-less URL to the item page on the user's account
+export function getMondayItemUrl(boardId: number, itemId: string | number): string {
+  return `https://monday.com/boards/${boardId}/pulses/${itemId}`;
+}
+
+// The board an item came from: the only one, or the one its SOURCE_BOARD_ID_FIELD names
+export function getSourceBoardId(item: PivotData, boardIds: number[]): number | undefined {
+  if (boardIds.length === 1) return boardIds[0];
+  const boardId = Number(item[SOURCE_BOARD_ID_FIELD]);
+  return boardIds.includes(boardId) ? boardId : undefined;
+}
+
+// The user's locale from a monday context, e.g. "en-US"; undefined when the context has no user.
+// Accepts the SDK's `{ data }` response as well as the context itself.
+export function getMondayLocale(context: any): string | undefined {
+  const user = context && (context.data || context).user;
+  if (!user || !user.currentLanguage) return undefined;
+  return user.countryCode ? `${user.currentLanguage}-${user.countryCode}` : user.currentLanguage;
+}
+
+// The board ids a monday context points at: `boardIds` in multi-board views and dashboard widgets,
+// `boardId` in a board view. Accepts the SDK's `{ data }` response as well as the context itself.
+export function getMondayBoardIds(context: any): number[] {
+  const data = context && (context.data || context);
+  if (!data) return [];
+  return parseBoardIds(Array.isArray(data.boardIds) && data.boardIds.length > 0 ? data.boardIds : data.boardId);
+}
+
+// Board ids from a number, an array or a comma separated string such as a `boardIds=1,2` URL parameter
+export function parseBoardIds(value: unknown): number[] {
+  const values: unknown[] = Array.isArray(value)
+    ? value
+    : typeof value === 'string'
+      ? value.split(',')
+      : value === undefined || value === null ? [] : [value];
+  const ids = values
+    .map(entry => Number(String(entry).trim()))
+    .filter(id => Number.isInteger(id) && id > 0);
+  return Array.from(new Set(ids));
+}
+
+// The pivot theme for the user's monday theme; monday calls its night theme "black"
+export function getMondayTheme(context: any): PivotTheme {
+  const theme = context && (context.data || context).theme;
+  if (theme === 'black' || theme === 'night') return 'night';
+  return theme === 'dark' ? 'dark' : 'light';
+}
+
+export function createMondaySdkSource(boardId: number | number[], sdk?: any): PivotDataSource {
+  const monday = () => sdk || (window as any).monday;
+  const call: MondayApiCall = (query, variables) => monday().api(query, { variables });
+  const boardIds = toBoardIds(boardId);
+  const mapItem = createItemMapper(boardIds);
+
+  return {
+    ...createGraphQLSource('monday-sdk', boardIds, call),
+    subscribe(listener) {
+      let active = true;
+      // Stops loading changed items once the view unsubscribes
+      const abortController = new AbortController();
+      const handleItemIds = (response: any) => {
+        if (!active) return;
+        const ids = response && Array.isArray(response.data) ? response.data.map(String) : null;
+        listener({ type: 'filter', ids });
+      };
+
+      // The SDK pushes board item events to views that listen for them
+      const unsubscribers = [
+        monday().listen('events', (event: any) => {
+          getMondayEventChanges(event, call, mapItem, abortController.signal)
+            .then(changes => changes.forEach(listener))
+            .catch(error => {
+              if (!active) return;
+              console.error('❌ Error loading changed items:', error);
+              listener({ type: 'reset' });
+            });
+        }),
+        // Sent whenever the board's filter or search changes, with the ids still shown
+        monday().listen('itemIds', handleItemIds)
+      ];
+
+      // itemIds only reports changes, so a filter or search already set when the view opens is read once.
+      // Unfiltered boards are left alone: their ids would hide items created afterwards.
+      Promise.resolve(monday().get('filter'))
+        .then(response => (isMondayFilterActive(response) ? monday().get('itemIds').then(handleItemIds) : undefined))
+        .catch(error => console.warn('⚠️ Could not read the board filter:', error));
+
+      return () => {
+        active = false;
+        abortController.abort();
+        unsubscribers.forEach(unsubscribe => {
+          if (typeof unsubscribe === 'function') unsubscribe();
+        });
+      };
+    }
+  };
+}
+
+export function createMcpSource(boardId: number | number[], endpoint = DEFAULT_MCP_ENDPOINT): PivotDataSource {
+  let requestId = 0;
+
+  const call: MondayApiCall = async (query, variables, signal) => {
+    const response = await fetch(endpoint, {
+      signal,
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        jsonrpc: '2.0',
+        method: 'tools/call',
+        params: {
+          name: 'mcp_monday-api-mcp_all_monday_api',
+          arguments: { query, variables: JSON.stringify(variables) }
+        },
+        id: ++requestId
+      })
+    });
+
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+    }
+
+    const result = await response.json();
+    if (result.error) {
+      throw new Error(`MCP Error: ${result.error.message}`);
+    }
+    return result.result;
+  };
+
+  return {
+    ...createGraphQLSource('mcp', toBoardIds(boardId), call),
+    subscribe: () => () => undefined
+  };
+}
+
+// Asks the hosting page for the board's items with REQUEST_BOARD_DATA and waits for
+// a BOARD_DATA_RESPONSE message carrying raw monday items. The SDK can still finish loading
+// meanwhile; whichever answers first wins.
+export function createPostMessageSource(
+  boardId: number | number[],
+  timeoutMs = DEFAULT_POST_MESSAGE_TIMEOUT
+): PivotDataSource {
+  const boardIds = toBoardIds(boardId);
+  const mapItem = createItemMapper(boardIds);
+  let lastFetched: PivotData[] = [];
+
+  const fetchItems = (options: PivotFetchOptions = {}) => new Promise<PivotData[]>((resolve, reject) => {
+    const { signal } = options;
+
+    const cleanup = () => {
+      clearTimeout(timeout);
+      clearTimeout(sdkPoll);
+      window.removeEventListener('message', messageHandler);
+      signal?.removeEventListener('abort', handleAbort);
+    };
+
+    const timeout = setTimeout(() => {
+      cleanup();
+      reject(new Error('Timeout waiting for Monday.com platform response'));
+    }, timeoutMs);
+
+    const handleAbort = () => {
+      cleanup();
+      reject(new DOMException('Board fetch was cancelled', 'AbortError'));
+    };
+
+    const messageHandler = (event: MessageEvent) => {
+      if (!event.data || event.data.type !== 'BOARD_DATA_RESPONSE') return;
+      cleanup();
+
+      try {
+        const items = event.data.data;
+        console.log(`📊 Found ${items.length} items via postMessage`);
+        lastFetched = items.map(mapItem);
+        options.onProgress?.({ boardId: boardIds[0], pages: 1, fetched: items.length, done: true });
+        resolve(lastFetched);
+      } catch (error) {
+        console.error('❌ Error processing postMessage data:', error);
+        reject(error);
+      }
+    };
+
+    let sdkPoll: ReturnType<typeof setTimeout> | undefined;
+    const checkSDK = () => {
+      if (!isMondaySDKAvailable()) {
+        sdkPoll = setTimeout(checkSDK, SDK_POLL_INTERVAL);
+        return;
+      }
+      cleanup();
+      console.log('🎉 Monday.com SDK became available, using it directly!');
+      createMondaySdkSource(boardIds).fetch(options).then(items => {
+        lastFetched = items;
+        resolve(items);
+      }, reject);
+    };
+
+    if (signal?.aborted) {
+      handleAbort();
+      return;
+    }
+    signal?.addEventListener('abort', handleAbort);
+    window.addEventListener('message', messageHandler);
+
+    // boardId stays for hosts that only know about one board
+    const request = { type: 'REQUEST_BOARD_DATA', boardId: boardIds[0], boardIds };
+    if (window.parent && window.parent !== window) {
+      window.parent.postMessage(request, '*');
+    }
+    if (window.top && window.top !== window && window.top !== window.parent) {
+      window.top.postMessage(request, '*');
+    }
+    checkSDK();
+  });
+
+  return {
+    name: 'post-message',
+    fetch: fetchItems,
+    // The host only sends items, so the schema comes from what was last received
+    schema: async () => inferFieldSchema(lastFetched.length > 0 ? lastFetched : await fetchItems()),
+    subscribe: () => () => undefined
+  };
+}
+
+// Serves a fixed array, e.g. sample data or an imported file
+export function createStaticSource(data: PivotData[], name = 'static'): PivotDataSource {
+  return {
+    name,
+    fetch: async () => data,
+    schema: async () => inferFieldSchema(data),
+    subscribe: () => () => undefined
+  };
+}
+
+// Applies an upsert or remove change to fetched items; resets and filters leave them as they are.
+// Items the change does not name keep their identity.
+export function applyPivotDataChange(data: PivotData[], change: PivotDataChange, idField = 'id'): PivotData[] {
+  if (change.type === 'reset' || change.type === 'filter') return data;
+
+  const changed = new Map<string, PivotData | null>(change.type === 'upsert'
+    ? change.items.map(item => [String(item[idField]), item])
+    : change.ids.map(id => [String(id), null]));
+  const next: PivotData[] = [];
+  for (const item of data) {
+    const id = String(item[idField]);
+    if (!changed.has(id)) {
+      next.push(item);
+      continue;
+    }
+    const replacement = changed.get(id);
+    if (replacement) next.push(replacement);
+    changed.delete(id);
+  }
+  // What is left was not fetched before, i.e. new items
+  changed.forEach(item => {
+    if (item) next.push(item);
+  });
+  return next;
+}
+
+// Turns a monday board event into item changes, loading the items it names
+async function getMondayEventChanges(
+  event: any,
+  call: MondayApiCall,
+  mapItem: (item: MondayItem) => PivotData,
+  signal?: AbortSignal
+): Promise<PivotDataChange[]> {
+  const data = (event && event.data) || {};
+  const ids: string[] = (data.itemIds || (data.itemId !== undefined ? [data.itemId] : [])).map(String);
+  // Events without items, such as column changes, can affect every item
+  if (ids.length === 0) return [{ type: 'reset' }];
+  if (/delete|archive/.test(String(data.type))) return [{ type: 'remove', ids }];
+
+  const items = (await fetchItemsByIds(call, ids, { signal })).map(mapItem);
+  const found = new Set(items.map(item => String(item.id)));
+  // Items that can no longer be loaded were deleted between the event and the query
+  const missing = ids.filter(id => !found.has(id));
+  const changes: PivotDataChange[] = [];
+  if (items.length > 0) changes.push({ type: 'upsert', items });
+  if (missing.length > 0) changes.push({ type: 'remove', ids: missing });
+  return changes;
+}
+
+// Shared fetch and schema for transports that speak monday GraphQL
+function createGraphQLSource(
+  name: string,
+  boardIds: number[],
+  call: MondayApiCall
+): Pick<PivotDataSource, 'name' | 'fetch' | 'schema'> {
+  const mapItem = createItemMapper(boardIds);
+
+  return {
+    name,
+    async fetch(options = {}) {
+      if (boardIds.length === 0) {
+        throw new Error('No board to fetch items from');
+      }
+      const items: PivotData[] = [];
+      // Boards are fetched one after another, with progress counting the items of all of them
+      for (const [index, boardId] of boardIds.entries()) {
+        const fetchedBefore = items.length;
+        const boardItems = await fetchBoardItems(call, boardId, {
+          signal: options.signal,
+          onProgress: progress => options.onProgress?.({
+            ...progress,
+            fetched: fetchedBefore + progress.fetched,
+            done: progress.done && index === boardIds.length - 1
+          })
+        });
+        console.log(`📊 Found ${boardItems.length} items in board ${boardId}`);
+        items.push(...boardItems.map(mapItem));
+      }
+      return items;
+    },
+    async schema() {
+      if (boardIds.length === 0) {
+        throw new Error('No board to read columns from');
+      }
+      const response = await call(COLUMNS_QUERY, { boardId: boardIds.map(String) });
+      const boards: { id: string; columns: { title: string; type: string }[] }[] =
+        (response && response.data && response.data.boards) || [];
+      const missing = boardIds.filter(boardId => !boards.some(board => String(board.id) === String(boardId)));
+      if (missing.length > 0) {
+        throw new Error(`Board ${missing.join(', ')} was not found or is not accessible`);
+      }
+
+      // Boards that share a column title share the field; the first board decides its type
+      const fields: PivotFieldSchema[] = [
+        { name: 'id', type: 'text' },
+        { name: 'name', type: 'text' },
+        ...(boardIds.length > 1
+          ? [{ name: SOURCE_BOARD_FIELD, type: 'text' as const }, { name: SOURCE_BOARD_ID_FIELD, type: 'text' as const }]
+          : [])
+      ];
+      boards.forEach(board => board.columns.forEach(column => {
+        if (!fields.some(field => field.name === column.title)) {
+          fields.push({ name: column.title, type: getColumnFieldType(column.type) });
+        }
+      }));
+      return fields;
+    }
+  };
+}
+
+function toBoardIds(boardId: number | number[]): number[] {
+  return Array.isArray(boardId) ? boardId : [boardId];
+}
+
+// Items merged from several boards are tagged with their board, so the pivot can group by it and
+// link each item to its own board. The id in the label keeps boards with the same name apart.
+function createItemMapper(boardIds: number[]): (item: MondayItem) => PivotData {
+  if (boardIds.length < 2) return item => mapMondayItem(item);
+  return item => ({
+    ...mapMondayItem(item),
+    [SOURCE_BOARD_FIELD]: item.board ? `${item.board.name} (#${item.board.id})` : null,
+    [SOURCE_BOARD_ID_FIELD]: item.board ? String(item.board.id) : null
+  });
+}
+
+// A search term or filter rule on the board; `filter` responses carry `{ term, rules }`
+function isMondayFilterActive(response: any): boolean {
+  const filter = response && (response.data || response);
+  if (!filter) return false;
+  return (typeof filter.term === 'string' && filter.term.trim() !== '') ||
+    (Array.isArray(filter.rules) && filter.rules.length > 0);
+}
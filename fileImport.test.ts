@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import { importFile, parseCsv, parseJsonData } from './fileImport';
+
+describe('parseCsv', () => {
+  it('detects the delimiter that splits every line the same way', () => {
+    expect(parseCsv('name;points\nAnn;3\nBob;4').data).toEqual([{ name: 'Ann', points: 3 }, { name: 'Bob', points: 4 }]);
+    expect(parseCsv('name\tnote\nAnn\tyes, done\n').data).toEqual([{ name: 'Ann', note: 'yes, done' }]);
+    expect(parseCsv('a|b\n1|2', { delimiter: ',' }).fields).toEqual(['a|b']);
+  });
+
+  it('reads quoted fields with delimiters, doubled quotes and line breaks', () => {
+    const result = parseCsv('\uFEFFname,note\r\n"Smith, Ann","said ""hi""\nthen left"\r\nBob,it\'s fine\r\n');
+    expect(result.data).toEqual([
+      { name: 'Smith, Ann', note: 'said "hi"\nthen left' },
+      { name: 'Bob', note: "it's fine" }
+    ]);
+    expect(parseCsv("name,note\n'Ann','a, b'\n'Bob','c'").data[0]).toEqual({ name: 'Ann', note: 'a, b' });
+  });
+
+  it('takes the first line as the header only when it reads like one', () => {
+    expect(parseCsv('owner,hours\nAnn,3').fields).toEqual(['owner', 'hours']);
+    expect(parseCsv('2024-01-01,3\n2024-01-02,4').fields).toEqual(['Column 1', 'Column 2']);
+    expect(parseCsv('yes,no\nyes,no').data).toHaveLength(2);
+    expect(parseCsv('a,a,\n1,2,3').fields).toEqual(['Column 1', 'Column 2', 'Column 3']);
+    expect(parseCsv('a,a,\n1,2,3', { hasHeader: true }).fields).toEqual(['a', 'a (2)', 'Column 3']);
+  });
+
+  it('infers numbers, booleans and dates per column and leaves mixed columns as text', () => {
+    const result = parseCsv('n,done,due,code\n1.5,TRUE,2024-03-01,7\n-2,false,2024-03-02T10:00:00Z,A7\n,,,');
+    expect(result.data).toEqual([
+      { n: 1.5, done: true, due: new Date('2024-03-01T00:00:00Z'), code: '7' },
+      { n: -2, done: false, due: new Date('2024-03-02T10:00:00Z'), code: 'A7' },
+      { n: null, done: null, due: null, code: null }
+    ]);
+    expect(result.errors).toEqual([]);
+    expect(parseCsv('n\n1\n2', { inferTypes: false }).data).toEqual([{ n: '1' }, { n: '2' }]);
+  });
+
+  it('reports values that do not fit their column type by row and column', () => {
+    const lines = ['owner,budget', ...Array.from({ length: 9 }, (_, i) => `Ann,${i}`), 'Bob,n/a'];
+    const result = parseCsv(lines.join('\n'));
+    expect(result.data[9]).toEqual({ owner: 'Bob', budget: null });
+    expect(result.errors).toEqual([{ row: 11, column: 'budget', message: '"n/a" is not a number; left empty' }]);
+  });
+
+  it('reports and skips rows that do not line up with the header', () => {
+    const result = parseCsv('name,points\nAnn,3\nBob\nCid,4,extra\nDee,5\n"Eve,6');
+    expect(result.data).toEqual([{ name: 'Ann', points: 3 }, { name: 'Dee', points: 5 }]);
+    expect(result.errors).toEqual([
+      { row: 3, message: 'Expected 2 fields but found 1; row skipped' },
+      { row: 4, message: 'Expected 2 fields but found 3; row skipped' },
+      { row: 6, message: 'Unterminated quoted field; row skipped' }
+    ]);
+  });
+});
+
+describe('parseJsonData', () => {
+  it('reads a top-level array or the single array inside an object', () => {
+    const items = [{ name: 'Ann', due: '2024-03-01' }, { name: 'Bob', due: '' }];
+    const expected = [{ name: 'Ann', due: new Date('2024-03-01T00:00:00Z') }, { name: 'Bob', due: '' }];
+    expect(parseJsonData(JSON.stringify(items))).toEqual({ data: expected, errors: [], fields: ['name', 'due'] });
+    expect(parseJsonData(JSON.stringify({ total: 2, items })).data).toEqual(expected);
+  });
+
+  it('reports entries that are not objects and input it cannot use', () => {
+    expect(parseJsonData('[{"a":1},2,null,[3]]')).toEqual({
+      data: [{ a: 1 }],
+      errors: [
+        { row: 2, message: 'Entry is not an object' },
+        { row: 3, message: 'Entry is not an object' },
+        { row: 4, message: 'Entry is not an object' }
+      ],
+      fields: ['a']
+    });
+    expect(parseJsonData('{"a":[],"b":[]}').errors).toEqual([{ row: 0, message: 'Expected an array of objects' }]);
+    expect(parseJsonData('[{').errors[0].message).toMatch(/^Invalid JSON: /);
+  });
+});
+
+describe('importFile', () => {
+  it('picks the parser from the file name or type', async () => {
+    const json = await importFile(new File(['[{"a":"1"}]'], 'items.JSON'));
+    expect(json.data).toEqual([{ a: '1' }]);
+    const csv = await importFile(new File(['a\n1'], 'items.txt', { type: 'text/plain' }));
+    expect(csv.data).toEqual([{ a: 1 }]);
+  });
+});
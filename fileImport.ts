@@ -0,0 +1,288 @@
+import { PivotData } from './pivot';
+
+export interface PivotImportError {
+  // 1-based line (CSV) or array position (JSON) of the offending record
+  row: number;
+  // Set when a single value could not be read as its column's type
+  column?: string;
+  message: string;
+}
+
+export interface PivotImportResult {
+  data: PivotData[];
+  errors: PivotImportError[];
+  fields: string[];
+}
+
+export interface CsvImportOptions {
+  // Detected from the first lines when omitted
+  delimiter?: string;
+  quote?: string;
+  hasHeader?: boolean;
+  // Convert numbers, booleans and ISO dates; on by default
+  inferTypes?: boolean;
+}
+
+interface CsvRecord {
+  line: number;
+  fields: string[];
+  error?: string;
+}
+
+interface ColumnType {
+  name: string;
+  fits: (value: string) => boolean;
+  convert: (value: string) => unknown;
+}
+
+const CANDIDATE_DELIMITERS = [',', ';', '\t', '|'];
+const SAMPLE_LINES = 20;
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}(?:[T ]\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:Z|[+-]\d{2}:?\d{2})?)?$/;
+const NUMBER_PATTERN = /^[+-]?(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?$/;
+// Share of a column's values that must fit a type, so a stray "n/a" does not turn numbers into text
+const TYPE_SHARE = 0.9;
+
+export async function importFile(file: File, options: CsvImportOptions = {}): Promise<PivotImportResult> {
+  const text = await file.text();
+  const isJson = file.name.toLowerCase().endsWith('.json') || file.type === 'application/json';
+  return isJson ? parseJsonData(text) : parseCsv(text, options);
+}
+
+export function parseCsv(text: string, options: CsvImportOptions = {}): PivotImportResult {
+  const content = text.replace(/^\uFEFF/, '');
+  const sample = content.split(/\r?\n/).slice(0, SAMPLE_LINES);
+  const quote = options.quote ?? detectQuote(sample);
+  const delimiter = options.delimiter ?? detectDelimiter(sample, quote);
+  const records = splitCsv(content, delimiter, quote).filter(record =>
+    !(record.fields.length === 1 && record.fields[0].trim() === '')
+  );
+
+  if (records.length === 0) {
+    return { data: [], errors: [], fields: [] };
+  }
+
+  const hasHeader = options.hasHeader ?? detectHeader(records);
+  const width = Math.max(...records.slice(0, SAMPLE_LINES).map(record => record.fields.length));
+  const fields = hasHeader
+    ? uniqueNames(records[0].fields.map((name, i) => name.trim() || `Column ${i + 1}`))
+    : Array.from({ length: width }, (_, i) => `Column ${i + 1}`);
+  const body = hasHeader ? records.slice(1) : records;
+
+  const errors: PivotImportError[] = [];
+  const rows: CsvRecord[] = [];
+
+  // Rows that cannot be lined up with the fields are reported and left out
+  for (const record of body) {
+    if (record.error) {
+      errors.push({ row: record.line, message: `${record.error}; row skipped` });
+    } else if (record.fields.length !== fields.length) {
+      errors.push({
+        row: record.line,
+        message: `Expected ${fields.length} fields but found ${record.fields.length}; row skipped`
+      });
+    } else {
+      rows.push(record);
+    }
+  }
+
+  const types = options.inferTypes === false
+    ? fields.map(() => null)
+    : fields.map((_, i) => inferColumnType(rows.map(row => row.fields[i])));
+
+  const data = rows.map(row => {
+    const item: PivotData = {};
+    fields.forEach((field, i) => {
+      const value = row.fields[i];
+      const type = types[i];
+      if (!type) {
+        item[field] = value === '' ? null : value;
+      } else if (value.trim() === '') {
+        item[field] = null;
+      } else if (type.fits(value.trim())) {
+        item[field] = type.convert(value.trim());
+      } else {
+        item[field] = null;
+        errors.push({ row: row.line, column: field, message: `"${value.trim()}" is not a ${type.name}; left empty` });
+      }
+    });
+    return item;
+  });
+
+  return { data, errors: errors.sort((a, b) => a.row - b.row), fields };
+}
+
+// Accepts a top-level array of objects, or an object holding one under a key such as "items"
+export function parseJsonData(text: string): PivotImportResult {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return { data: [], errors: [{ row: 0, message: `Invalid JSON: ${message}` }], fields: [] };
+  }
+
+  const records = Array.isArray(parsed) ? parsed : findRecordArray(parsed);
+  if (!records) {
+    return { data: [], errors: [{ row: 0, message: 'Expected an array of objects' }], fields: [] };
+  }
+
+  const errors: PivotImportError[] = [];
+  const data: PivotData[] = [];
+  records.forEach((record, i) => {
+    if (record === null || typeof record !== 'object' || Array.isArray(record)) {
+      errors.push({ row: i + 1, message: 'Entry is not an object' });
+      return;
+    }
+    data.push(record as PivotData);
+  });
+
+  // JSON already carries numbers and booleans; only date strings need reviving
+  const fields = Array.from(new Set(data.flatMap(item => Object.keys(item))));
+  for (const field of fields) {
+    const present = data
+      .map(item => item[field])
+      .filter(value => value !== null && value !== undefined && value !== '');
+    if (present.length > 0 && present.every(value => typeof value === 'string' && isIsoDate(value))) {
+      data.forEach(item => {
+        if (typeof item[field] === 'string' && item[field] !== '') item[field] = parseIsoDate(item[field]);
+      });
+    }
+  }
+
+  return { data, errors, fields };
+}
+
+function findRecordArray(value: unknown): unknown[] | null {
+  if (value === null || typeof value !== 'object') return null;
+  const arrays = Object.values(value as Record<string, unknown>).filter(Array.isArray);
+  return arrays.length === 1 ? arrays[0] : null;
+}
+
+// RFC 4180 style splitting: quoted fields may hold delimiters, doubled quotes and newlines
+function splitCsv(text: string, delimiter: string, quote: string): CsvRecord[] {
+  const records: CsvRecord[] = [];
+  let fields: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let line = 1;
+  let recordLine = 1;
+
+  const endRecord = () => {
+    fields.push(field);
+    records.push({ line: recordLine, fields });
+    fields = [];
+    field = '';
+    recordLine = line;
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === quote && text[i + 1] === quote) {
+        field += quote;
+        i++;
+      } else if (char === quote) {
+        inQuotes = false;
+      } else {
+        if (char === '\n') line++;
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === quote && field.trim() === '') {
+      field = '';
+      inQuotes = true;
+    } else if (char === delimiter) {
+      fields.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      line++;
+      endRecord();
+    } else {
+      field += char;
+    }
+  }
+
+  if (inQuotes) {
+    fields.push(field);
+    records.push({ line: recordLine, fields, error: 'Unterminated quoted field' });
+  } else if (field !== '' || fields.length > 0) {
+    endRecord();
+  }
+
+  return records;
+}
+
+// Counts quote characters that open a field, so apostrophes inside words do not count
+function detectQuote(lines: string[]): string {
+  const count = (quote: string) => lines.reduce(
+    (sum, line) => sum + (line.match(new RegExp(`(?:^|[,;\\t|])\\s*${quote}`, 'g')) || []).length,
+    0
+  );
+  return count("'") > count('"') ? "'" : '"';
+}
+
+// The delimiter that splits the sample into the same, largest number of fields on every line
+function detectDelimiter(lines: string[], quote: string): string {
+  const nonEmpty = lines.filter(line => line.trim() !== '');
+  let best = CANDIDATE_DELIMITERS[0];
+  let bestScore = 0;
+
+  for (const delimiter of CANDIDATE_DELIMITERS) {
+    const counts = nonEmpty.map(line => splitCsv(line, delimiter, quote)[0]?.fields.length ?? 1);
+    if (counts.length === 0 || counts[0] < 2) continue;
+    const consistent = counts.filter(count => count === counts[0]).length / counts.length;
+    const score = consistent * counts[0];
+    if (score > bestScore) {
+      best = delimiter;
+      bestScore = score;
+    }
+  }
+
+  return best;
+}
+
+// A header row has distinct, non-empty, non-numeric labels that do not recur as data below them
+function detectHeader(records: CsvRecord[]): boolean {
+  const [first, ...rest] = records;
+  const labels = first.fields.map(field => field.trim());
+  if (labels.some(label => label === '') || new Set(labels).size !== labels.length) return false;
+  if (labels.some(label => NUMBER_PATTERN.test(label) || ISO_DATE_PATTERN.test(label))) return false;
+
+  const sample = rest.slice(0, SAMPLE_LINES);
+  return !labels.some((label, i) => sample.some(record => (record.fields[i] ?? '').trim() === label));
+}
+
+function uniqueNames(names: string[]): string[] {
+  const seen = new Map<string, number>();
+  return names.map(name => {
+    const count = seen.get(name) || 0;
+    seen.set(name, count + 1);
+    return count === 0 ? name : `${name} (${count + 1})`;
+  });
+}
+
+const COLUMN_TYPES: ColumnType[] = [
+  { name: 'number', fits: value => NUMBER_PATTERN.test(value), convert: Number },
+  { name: 'boolean', fits: value => /^(true|false)$/i.test(value), convert: value => value.toLowerCase() === 'true' },
+  { name: 'date', fits: isIsoDate, convert: parseIsoDate }
+];
+
+// Picks the narrowest type nearly every non-empty value of the column fits; null keeps the text
+function inferColumnType(values: string[]): ColumnType | null {
+  const present = values.map(value => value.trim()).filter(value => value !== '');
+  if (present.length === 0) return null;
+  return COLUMN_TYPES.find(type => present.filter(type.fits).length >= present.length * TYPE_SHARE) ?? null;
+}
+
+function isIsoDate(value: string): boolean {
+  return ISO_DATE_PATTERN.test(value) && !Number.isNaN(Date.parse(value));
+}
+
+// Date-only values become UTC midnight, like monday dates
+function parseIsoDate(value: string): Date {
+  return new Date(value.length === 10 ? `${value}T00:00:00Z` : value);
+}
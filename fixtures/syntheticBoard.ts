@@ -0,0 +1,38 @@
+import { PivotData } from '../pivot';
+
+export interface SyntheticBoardOptions {
+  items: number;
+  // Distinct values of the row and column grouping fields
+  rows: number;
+  columns: number;
+  seed?: number;
+}
+
+// A deterministic board shaped like a monday export: grouping fields, a date and a few numbers
+export function createSyntheticBoard(options: SyntheticBoardOptions): PivotData[] {
+  const { items, rows, columns, seed = 1 } = options;
+  const random = createRandom(seed);
+  const board: PivotData[] = [];
+  for (let index = 0; index < items; index++) {
+    board.push({
+      id: String(index + 1),
+      name: `Item ${index + 1}`,
+      owner: `Owner ${Math.floor(random() * rows)}`,
+      status: `Status ${Math.floor(random() * columns)}`,
+      group: random() < 0.5 ? 'This month' : 'Next month',
+      date: new Date(Date.UTC(2024, 0, 1 + Math.floor(random() * 365))),
+      budget: Math.round(random() * 10000),
+      hours: Math.round(random() * 400) / 10
+    });
+  }
+  return board;
+}
+
+// Park–Miller generator, so every run pivots the same board
+function createRandom(seed: number): () => number {
+  let state = seed % 2147483647 || 1;
+  return () => {
+    state = (state * 16807) % 2147483647;
+    return (state - 1) / 2147483646;
+  };
+}
@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest';
+import { getColumnFieldType, mapMondayItem, MondayItem, parseColumnValue } from './mondayColumns';
+import columnValues from './fixtures/monday/columnValues.json';
+
+// Written by hand in the shape of an items response to COLUMN_VALUES_FRAGMENT, with values as the
+// API reference documents them: one filled item, one with every column empty
+const [filled, empty] = columnValues.data.items as MondayItem[];
+
+describe('mapMondayItem', () => {
+  it('parses every column of a recorded item by its type', () => {
+    expect(mapMondayItem(filled)).toEqual({
+      id: '1562387422',
+      name: 'Website relaunch',
+      'Due date': new Date('2024-03-15T00:00:00Z'),
+      Kickoff: new Date('2024-03-15T14:30:00Z'),
+      Timeline: { from: new Date('2024-03-01T00:00:00Z'), to: new Date('2024-03-31T00:00:00Z') },
+      'Sprint week': { from: new Date('2024-03-04T00:00:00Z'), to: new Date('2024-03-10T00:00:00Z') },
+      Owner: ['Alice Smith', 'Bob Jones'],
+      Status: 'Working on it',
+      Approved: true,
+      Budget: 1200.5,
+      Estimate: 12.5,
+      Client: 'Acme Corp',
+      'Client size': 42,
+      Tags: ['web', 'q1']
+    });
+  });
+
+  it('turns empty columns into blanks, unchecked boxes into false and lists into empty arrays', () => {
+    expect(mapMondayItem(empty)).toEqual({
+      id: '1562387431',
+      name: 'Brand guidelines',
+      'Due date': null,
+      Kickoff: null,
+      Timeline: null,
+      'Sprint week': null,
+      Owner: [],
+      Status: null,
+      Approved: false,
+      Budget: null,
+      Estimate: null,
+      Client: null,
+      'Client size': null,
+      Tags: []
+    });
+  });
+});
+
+describe('parseColumnValue', () => {
+  it('produces the field type getColumnFieldType reports', () => {
+    const typeOf = (value: unknown) => {
+      if (value instanceof Date) return 'date';
+      if (Array.isArray(value)) return 'list';
+      if (value && typeof value === 'object') return 'range';
+      return typeof value === 'string' ? 'text' : typeof value;
+    };
+    for (const column of filled.column_values || []) {
+      if (column.type === 'mirror') continue;
+      expect(typeOf(parseColumnValue(column)), column.column?.title).toBe(getColumnFieldType(column.type));
+    }
+  });
+
+  it('reads numbers from text in either locale style', () => {
+    const number = (text: string) => parseColumnValue({ type: 'numbers', text, value: null });
+    expect(number('$1,200')).toBe(1200);
+    expect(number('1,200.50')).toBe(1200.5);
+    expect(number('1.200,50 €')).toBe(1200.5);
+    expect(number('1 200,5')).toBe(1200.5);
+    expect(number("1'234'567.8")).toBe(1234567.8);
+    expect(number('1.234.567')).toBe(1234567);
+    expect(number('12,5 h')).toBe(12.5);
+    expect(number('0,125')).toBe(0.125);
+    expect(number('-$1,200')).toBe(-1200);
+    expect(number('n/a')).toBeNull();
+  });
+
+  it('reads list entries from the typed value rather than splitting the text', () => {
+    expect(parseColumnValue({ type: 'tags', text: 'R&D, EMEA, web', value: null, tags: [{ name: 'R&D, EMEA' }, { name: 'web' }] }))
+      .toEqual(['R&D, EMEA', 'web']);
+    expect(parseColumnValue({ type: 'dropdown', text: 'Large, 2 doors', value: null, values: [{ label: 'Large, 2 doors' }] }))
+      .toEqual(['Large, 2 doors']);
+    expect(parseColumnValue({ type: 'board_relation', text: 'Acme, Inc.', value: null, linked_items: [{ name: 'Acme, Inc.' }] }))
+      .toEqual(['Acme, Inc.']);
+  });
+
+  it('matches people names to the assignees in the JSON value', () => {
+    const value = JSON.stringify({ personsAndTeams: [{ id: 1, kind: 'person' }, { id: 2, kind: 'team' }] });
+    expect(parseColumnValue({ type: 'people', text: 'Alice Smith, Design', value })).toEqual(['Alice Smith', 'Design']);
+    // One of the names contains ", ", so the count is off and the ids stand in
+    expect(parseColumnValue({ type: 'people', text: 'Smith, Alice, Design', value })).toEqual(['1', '2']);
+    expect(parseColumnValue({ type: 'people', text: '', value: '{"personsAndTeams":[]}' })).toEqual([]);
+  });
+
+  it('prefers the JSON value over the display text', () => {
+    expect(parseColumnValue({ type: 'numbers', text: '1,000 €', value: '"999.99"' })).toBe(999.99);
+    expect(parseColumnValue({ type: 'checkbox', text: '', value: '{"checked":true}' })).toBe(true);
+    expect(parseColumnValue({ type: 'date', text: 'Mar 15', value: 'not json' })).toBeNull();
+  });
+});
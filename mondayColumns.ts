@@ -0,0 +1,269 @@
+import { PivotData, PivotFieldType, PivotRange } from './pivot';
+
+// A column value as returned by the monday GraphQL API. Older API versions put the
+// title on the value itself, newer ones under `column`; mirror columns carry `display_value`,
+// and tag, dropdown and connected-item columns their entries by name.
+export interface MondayColumnValue {
+  id?: string;
+  type?: string;
+  title?: string;
+  text: string | null;
+  value: string | null;
+  display_value?: string | null;
+  tags?: { name: string }[] | null;
+  values?: { label: string }[] | null;
+  linked_items?: { name: string }[] | null;
+  column?: {
+    title: string;
+  };
+}
+
+export interface MondayItem {
+  id?: string;
+  name: string;
+  // The board the item lives on, requested so items merged from several boards can be told apart
+  board?: { id: string; name: string };
+  column_values?: MondayColumnValue[];
+}
+
+export type MondayCellValue = string | number | boolean | Date | PivotRange | string[] | null;
+
+// Column fragment to request with every item so the parser sees type, raw value and mirror text
+export const COLUMN_VALUES_FRAGMENT = `
+  column_values {
+    id
+    type
+    text
+    value
+    column {
+      title
+    }
+    ... on MirrorValue {
+      display_value
+    }
+    ... on TagsValue {
+      tags {
+        name
+      }
+    }
+    ... on DropdownValue {
+      values {
+        label
+      }
+    }
+    ... on BoardRelationValue {
+      linked_items {
+        name
+      }
+    }
+    ... on DependencyValue {
+      linked_items {
+        name
+      }
+    }
+  }
+`;
+
+// Pivot field type that parseColumnValue produces for a monday column type
+export function getColumnFieldType(type: string | undefined): PivotFieldType {
+  switch (type) {
+    case 'numbers':
+    case 'numeric':
+    case 'rating':
+    case 'time_tracking':
+    case 'duration':
+      return 'number';
+    case 'checkbox':
+    case 'boolean':
+      return 'boolean';
+    case 'date':
+    case 'creation_log':
+    case 'last_updated':
+      return 'date';
+    case 'timeline':
+    case 'timerange':
+    case 'week':
+      return 'range';
+    case 'people':
+    case 'multiple-person':
+    case 'person':
+    case 'tags':
+    case 'tag':
+    case 'dropdown':
+    case 'board_relation':
+    case 'board-relation':
+    case 'dependency':
+      return 'list';
+    default:
+      return 'text';
+  }
+}
+
+export function getColumnTitle(column: MondayColumnValue): string {
+  return (column.column && column.column.title) || column.title || column.id || '';
+}
+
+// Keeps the item id so drill-down can link back to the item page
+export function mapMondayItem(item: MondayItem): PivotData {
+  const row: PivotData = item.id ? { id: item.id, name: item.name } : { name: item.name };
+  (item.column_values || []).forEach(column => {
+    row[getColumnTitle(column)] = parseColumnValue(column);
+  });
+  return row;
+}
+
+// Turns one column value into a typed pivot value using the column type and its JSON `value`,
+// falling back to the display text for types without structured data
+export function parseColumnValue(column: MondayColumnValue): MondayCellValue {
+  const text = column.text ?? '';
+  const raw = parseJson(column.value);
+
+  switch (column.type) {
+    case 'numbers':
+    case 'numeric':
+      // The JSON value holds the plain number; the text may carry a unit symbol
+      return parseNumber(typeof raw === 'string' || typeof raw === 'number' ? raw : text);
+
+    case 'rating':
+      return raw && typeof raw.rating === 'number' ? raw.rating : parseNumber(text);
+
+    case 'checkbox':
+    case 'boolean':
+      return !!raw && (raw.checked === true || raw.checked === 'true');
+
+    case 'date': {
+      if (raw && raw.date) return parseDate(raw.date, raw.time);
+      return text ? parseDate(text) : null;
+    }
+
+    case 'creation_log':
+    case 'last_updated': {
+      const at = raw && (raw.created_at || raw.updated_at);
+      return at ? parseTimestamp(at) : null;
+    }
+
+    case 'timeline':
+    case 'timerange': {
+      if (!raw || (!raw.from && !raw.to)) return null;
+      return {
+        from: raw.from ? parseDate(raw.from) : null,
+        to: raw.to ? parseDate(raw.to) : null
+      };
+    }
+
+    case 'week': {
+      const week = raw && raw.week;
+      if (!week || (!week.startDate && !week.endDate)) return null;
+      return {
+        from: week.startDate ? parseDate(week.startDate) : null,
+        to: week.endDate ? parseDate(week.endDate) : null
+      };
+    }
+
+    case 'people':
+    case 'multiple-person':
+    case 'person':
+      return parsePeople(raw, text);
+
+    case 'tags':
+    case 'tag':
+      return column.tags ? column.tags.map(tag => tag.name) : splitList(text);
+
+    case 'dropdown':
+      return column.values ? column.values.map(option => option.label) : splitList(text);
+
+    case 'board_relation':
+    case 'board-relation':
+    case 'dependency':
+      return column.linked_items ? column.linked_items.map(item => item.name) : splitList(text);
+
+    case 'status':
+    case 'color':
+      return text || null;
+
+    case 'mirror':
+    case 'lookup':
+    case 'formula':
+      return parseLooseText(column.display_value ?? text);
+
+    case 'time_tracking':
+    case 'duration':
+      // Tracked time in hours so it can be summed like any other number
+      return raw && typeof raw.duration === 'number' ? raw.duration / 3600 : null;
+
+    default:
+      return text === '' ? null : text;
+  }
+}
+
+function parseJson(value: string | null): any {
+  if (!value) return null;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return null;
+  }
+}
+
+// Reads numbers written in either locale style, with units and grouping: "$1,200.50", "1.200,50 €",
+// "1 200,5" or "12.5 h". With both separators the last one is the decimal mark; a lone comma before
+// exactly three digits groups thousands, as does any separator that repeats.
+function parseNumber(value: string | number): number | null {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  const match = /\d[\d.,'\s\u00a0\u202f]*/.exec(value);
+  if (!match) return null;
+  const digits = match[0].replace(/[\s'\u00a0\u202f]/g, '').replace(/[.,]$/, '');
+  const negative = /-\D*$/.test(value.slice(0, match.index));
+
+  const decimal = getDecimalMark(digits);
+  const point = decimal ? digits.lastIndexOf(decimal) : digits.length;
+  const whole = digits.slice(0, point).replace(/[.,]/g, '');
+  const fraction = digits.slice(point + 1);
+  const number = Number(fraction ? `${whole}.${fraction}` : whole);
+  if (Number.isNaN(number)) return null;
+  return negative ? -number : number;
+}
+
+function getDecimalMark(digits: string): '.' | ',' | null {
+  const dot = digits.lastIndexOf('.');
+  const comma = digits.lastIndexOf(',');
+  if (dot >= 0 && comma >= 0) return dot > comma ? '.' : ',';
+  const mark = dot >= 0 ? '.' : comma >= 0 ? ',' : null;
+  if (!mark || digits.indexOf(mark) !== digits.lastIndexOf(mark)) return null;
+  if (mark === ',' && /^[1-9]\d{0,2},\d{3}$/.test(digits)) return null;
+  return mark;
+}
+
+// monday stores dates as "YYYY-MM-DD" with an optional UTC "HH:MM:SS" time
+function parseDate(date: string, time?: string | null): Date | null {
+  const parsed = new Date(time ? `${date}T${time}Z` : `${date.slice(0, 10)}T00:00:00Z`);
+  return Number.isNaN(parsed.getTime()) ? null : parsed;
+}
+
+function parseTimestamp(value: string): Date | null {
+  const parsed = new Date(value);
+  return Number.isNaN(parsed.getTime()) ? null : parsed;
+}
+
+// The JSON value lists who is assigned, by id only; the text holds their names in the same order.
+// A name containing ", " would shift the names, so ids stand in when the counts differ.
+function parsePeople(raw: any, text: string): string[] {
+  const entries: { id: number | string }[] | null = raw && Array.isArray(raw.personsAndTeams) ? raw.personsAndTeams : null;
+  if (!entries) return splitList(text);
+  const names = text.split(', ').map(name => name.trim()).filter(name => name !== '');
+  return names.length === entries.length ? names : entries.map(entry => String(entry.id));
+}
+
+function splitList(text: string): string[] {
+  return text
+    .split(',')
+    .map(entry => entry.trim())
+    .filter(entry => entry !== '');
+}
+
+// Mirror and formula columns can hold anything; keep numbers numeric and the rest as text
+function parseLooseText(text: string): string | number | null {
+  if (text === '') return null;
+  const number = Number(text);
+  return Number.isNaN(number) ? text : number;
+}
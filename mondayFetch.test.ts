@@ -0,0 +1,180 @@
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { fetchBoardItems, fetchItemsByIds, FetchProgress, MondayApiCall } from './mondayFetch';
+
+const BOARD_ID = 4242;
+const ITEM_COUNT = 1234;
+
+interface GraphQLRequest {
+  query: string;
+  variables: Record<string, any>;
+}
+
+// A local stand-in for the monday API: the board's items served through items_page cursors
+let server: Server;
+let endpoint = '';
+let requests: GraphQLRequest[] = [];
+
+const items = Array.from({ length: ITEM_COUNT }, (_, index) => ({
+  id: String(index + 1),
+  name: `Item ${index + 1}`,
+  column_values: []
+}));
+
+function getPage(offset: number, limit: number) {
+  const end = Math.min(offset + limit, items.length);
+  return { cursor: end < items.length ? `cursor-${end}` : null, items: items.slice(offset, end) };
+}
+
+function respond({ query, variables }: GraphQLRequest) {
+  if (query.includes('next_items_page')) {
+    const offset = Number(/^cursor-(\d+)$/.exec(variables.cursor)?.[1]);
+    if (Number.isNaN(offset)) return { errors: [{ message: 'CursorException: invalid cursor' }] };
+    return { data: { next_items_page: getPage(offset, variables.limit) } };
+  }
+  if (query.includes('items(ids')) {
+    return { data: { items: items.filter(item => variables.ids.includes(item.id)) } };
+  }
+  if (query.includes('items_page')) {
+    const boards = variables.boardId.includes(String(BOARD_ID)) ? [{ items_page: getPage(0, variables.limit) }] : [];
+    return { data: { boards } };
+  }
+  return { errors: [{ message: 'Unexpected query' }] };
+}
+
+const call: MondayApiCall = async (query, variables, signal) => {
+  const response = await fetch(endpoint, {
+    signal,
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ query, variables })
+  });
+  return response.json();
+};
+
+beforeAll(async () => {
+  server = createServer((request, response) => {
+    let body = '';
+    request.on('data', chunk => (body += chunk));
+    request.on('end', () => {
+      const parsed = JSON.parse(body) as GraphQLRequest;
+      requests.push(parsed);
+      response.setHeader('Content-Type', 'application/json');
+      response.end(JSON.stringify(respond(parsed)));
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  endpoint = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v2`;
+});
+
+afterAll(() => new Promise<void>(resolve => server.close(() => resolve())));
+
+beforeEach(() => {
+  requests = [];
+});
+
+describe('fetchBoardItems', () => {
+  it('follows items_page cursors until the last page', async () => {
+    const fetched = await fetchBoardItems(call, BOARD_ID);
+
+    expect(fetched.map(item => item.id)).toEqual(items.map(item => item.id));
+    expect(requests.map(request => request.variables.cursor ?? null)).toEqual([null, 'cursor-500', 'cursor-1000']);
+    expect(requests.every(request => request.variables.limit === 500)).toBe(true);
+  });
+
+  it('reports progress after every page', async () => {
+    const progress: FetchProgress[] = [];
+    await fetchBoardItems(call, BOARD_ID, { pageSize: 400, onProgress: next => progress.push(next) });
+
+    expect(progress).toEqual([
+      { boardId: BOARD_ID, pages: 1, fetched: 400, done: false },
+      { boardId: BOARD_ID, pages: 2, fetched: 800, done: false },
+      { boardId: BOARD_ID, pages: 3, fetched: 1200, done: false },
+      { boardId: BOARD_ID, pages: 4, fetched: 1234, done: true }
+    ]);
+  });
+
+  it('caps the page size at monday\'s limit of 500', async () => {
+    await fetchBoardItems(call, BOARD_ID, { pageSize: 2000 });
+    expect(requests[0].variables.limit).toBe(500);
+  });
+
+  it('stops paging when the signal aborts', async () => {
+    const controller = new AbortController();
+    const fetching = fetchBoardItems(call, BOARD_ID, {
+      pageSize: 100,
+      signal: controller.signal,
+      onProgress: progress => {
+        if (progress.pages === 2) controller.abort();
+      }
+    });
+
+    await expect(fetching).rejects.toMatchObject({ name: 'AbortError' });
+    expect(requests).toHaveLength(2);
+  });
+
+  it('does not send a request when already aborted', async () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(fetchBoardItems(call, BOARD_ID, { signal: controller.signal })).rejects.toMatchObject({ name: 'AbortError' });
+    expect(requests).toHaveLength(0);
+  });
+
+  it('rejects a request in flight when the signal aborts, even if the transport cannot cancel', async () => {
+    const controller = new AbortController();
+    const signals: (AbortSignal | undefined)[] = [];
+    // Like the SDK, which never answers here and ignores the signal
+    const hanging: MondayApiCall = (_query, _variables, signal) => {
+      signals.push(signal);
+      return new Promise(() => undefined);
+    };
+    const fetching = fetchBoardItems(hanging, BOARD_ID, { signal: controller.signal });
+    controller.abort();
+
+    await expect(fetching).rejects.toMatchObject({ name: 'AbortError' });
+    expect(signals).toEqual([controller.signal]);
+  });
+
+  it('rejects for boards that are missing or not accessible', async () => {
+    await expect(fetchBoardItems(call, 1)).rejects.toThrow('Board 1 was not found or is not accessible');
+  });
+
+  it('surfaces GraphQL errors', async () => {
+    const brokenCursor: MondayApiCall = (query, variables) =>
+      call(query, query.includes('next_items_page') ? { ...variables, cursor: 'expired' } : variables);
+
+    await expect(fetchBoardItems(brokenCursor, BOARD_ID)).rejects.toThrow('monday API error: CursorException: invalid cursor');
+  });
+});
+
+describe('fetchItemsByIds', () => {
+  const ids = items.slice(0, 250).map(item => item.id);
+
+  it('loads the items in chunks of 100 ids and leaves out unknown ones', async () => {
+    const fetched = await fetchItemsByIds(call, [...ids, 'deleted']);
+    expect(fetched.map(item => item.id)).toEqual(ids);
+    expect(requests.map(request => request.variables.ids.length)).toEqual([100, 100, 51]);
+  });
+
+  it('stops when the signal aborts', async () => {
+    const controller = new AbortController();
+    const aborting: MondayApiCall = async (query, variables, signal) => {
+      const response = await call(query, variables, signal);
+      controller.abort();
+      return response;
+    };
+
+    await expect(fetchItemsByIds(aborting, ids, { signal: controller.signal })).rejects.toMatchObject({ name: 'AbortError' });
+    expect(requests).toHaveLength(1);
+  });
+
+  it('does not send a request when already aborted', async () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(fetchItemsByIds(call, ids, { signal: controller.signal })).rejects.toMatchObject({ name: 'AbortError' });
+    expect(requests).toHaveLength(0);
+  });
+});
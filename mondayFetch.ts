@@ -0,0 +1,162 @@
+import { COLUMN_VALUES_FRAGMENT, MondayItem } from './mondayColumns';
+
+// Sends one GraphQL query to monday and resolves with the raw `{ data, errors }` response. Transports
+// that can cancel a request use `signal`; the fetch helpers stop waiting on abort either way.
+export type MondayApiCall = (query: string, variables: Record<string, unknown>, signal?: AbortSignal) => Promise<any>;
+
+export interface FetchProgress {
+  boardId: number;
+  pages: number;
+  fetched: number;
+  done: boolean;
+}
+
+export interface FetchBoardItemsOptions {
+  // Items per request; monday caps items_page at 500
+  pageSize?: number;
+  signal?: AbortSignal;
+  onProgress?: (progress: FetchProgress) => void;
+}
+
+export interface FetchItemsByIdsOptions {
+  signal?: AbortSignal;
+}
+
+const DEFAULT_PAGE_SIZE = 500;
+// monday caps the ids of one items query at 100
+const ITEMS_BY_ID_LIMIT = 100;
+
+const ITEM_FIELDS = `
+  id
+  name
+  board {
+    id
+    name
+  }
+  ${COLUMN_VALUES_FRAGMENT}
+`;
+
+const FIRST_PAGE_QUERY = `
+  query ($boardId: [ID!], $limit: Int!) {
+    boards(ids: $boardId) {
+      items_page(limit: $limit) {
+        cursor
+        items {
+          ${ITEM_FIELDS}
+        }
+      }
+    }
+  }
+`;
+
+const NEXT_PAGE_QUERY = `
+  query ($cursor: String!, $limit: Int!) {
+    next_items_page(cursor: $cursor, limit: $limit) {
+      cursor
+      items {
+        ${ITEM_FIELDS}
+      }
+    }
+  }
+`;
+
+const ITEMS_BY_ID_QUERY = `
+  query ($ids: [ID!]) {
+    items(ids: $ids) {
+      ${ITEM_FIELDS}
+    }
+  }
+`;
+
+interface ItemsPage {
+  cursor: string | null;
+  items: MondayItem[];
+}
+
+// Walks a board's items_page cursor until monday reports no more pages
+export async function fetchBoardItems(
+  call: MondayApiCall,
+  boardId: number,
+  options: FetchBoardItemsOptions = {}
+): Promise<MondayItem[]> {
+  const { pageSize = DEFAULT_PAGE_SIZE, signal, onProgress } = options;
+  const limit = Math.min(Math.max(pageSize, 1), DEFAULT_PAGE_SIZE);
+  const items: MondayItem[] = [];
+  let pages = 0;
+
+  const firstResponse = await send(call, FIRST_PAGE_QUERY, { boardId: [String(boardId)], limit }, signal);
+
+  const boards = getResponseData(firstResponse).boards;
+  if (!boards || !boards[0]) {
+    throw new Error(`Board ${boardId} was not found or is not accessible`);
+  }
+
+  let page: ItemsPage = boards[0].items_page;
+  while (page) {
+    items.push(...page.items);
+    pages++;
+    onProgress?.({ boardId, pages, fetched: items.length, done: !page.cursor });
+
+    if (!page.cursor) break;
+
+    const response = await send(call, NEXT_PAGE_QUERY, { cursor: page.cursor, limit }, signal);
+    page = getResponseData(response).next_items_page;
+  }
+
+  return items;
+}
+
+// Loads specific items, e.g. the ones a board event reports as changed; deleted ids are left out
+export async function fetchItemsByIds(
+  call: MondayApiCall,
+  ids: (string | number)[],
+  options: FetchItemsByIdsOptions = {}
+): Promise<MondayItem[]> {
+  const { signal } = options;
+  const items: MondayItem[] = [];
+  for (let start = 0; start < ids.length; start += ITEMS_BY_ID_LIMIT) {
+    const chunk = ids.slice(start, start + ITEMS_BY_ID_LIMIT).map(String);
+    const response = await send(call, ITEMS_BY_ID_QUERY, { ids: chunk }, signal);
+    items.push(...(getResponseData(response).items || []));
+  }
+  return items;
+}
+
+// Rejects with an AbortError as soon as `signal` aborts, also while the request is in flight; a reply
+// arriving after that is dropped
+function send(
+  call: MondayApiCall,
+  query: string,
+  variables: Record<string, unknown>,
+  signal?: AbortSignal
+): Promise<any> {
+  throwIfAborted(signal);
+  if (!signal) return call(query, variables);
+
+  return new Promise((resolve, reject) => {
+    const handleAbort = () => reject(createAbortError());
+    signal.addEventListener('abort', handleAbort, { once: true });
+    call(query, variables, signal)
+      .then(resolve, reject)
+      .finally(() => signal.removeEventListener('abort', handleAbort));
+  });
+}
+
+function getResponseData(response: any): any {
+  if (response && Array.isArray(response.errors) && response.errors.length > 0) {
+    const messages = response.errors.map((error: { message: string }) => error.message).join('; ');
+    throw new Error(`monday API error: ${messages}`);
+  }
+  if (!response || !response.data) {
+    throw new Error('Invalid response structure from Monday.com API');
+  }
+  return response.data;
+}
+
+function throwIfAborted(signal?: AbortSignal): void {
+  if (signal && signal.aborted) throw createAbortError();
+}
+
+function createAbortError(): Error {
+  return new DOMException('Board fetch was cancelled', 'AbortError');
+}
@@ -0,0 +1,66 @@
+import { bench, describe } from 'vitest';
+import { createPivotTable, PivotConfig, PivotData } from './pivot';
+import { createSyntheticBoard } from './fixtures/syntheticBoard';
+
+// The board sizes the engine has to keep interactive; the 5,000 × 50 × 40 board froze the old
+// per-cell filter implementation
+const BOARDS = [
+  { items: 5000, rows: 50, columns: 40 },
+  { items: 50000, rows: 200, columns: 12 }
+];
+
+const CONFIG: PivotConfig = {
+  rows: ['owner'],
+  columns: ['status'],
+  values: ['budget'],
+  aggregation: 'sum'
+};
+
+for (const board of BOARDS) {
+  const data = createSyntheticBoard(board);
+
+  describe(`${board.items} items, ${board.rows} rows × ${board.columns} columns`, () => {
+    bench('sum', () => {
+      createPivotTable(data, CONFIG);
+    });
+
+    bench('nested rows with subtotals and two measures', () => {
+      createPivotTable(data, {
+        ...CONFIG,
+        rows: ['group', 'owner'],
+        measures: [
+          { field: 'budget', aggregation: 'sum' },
+          { field: 'hours', aggregation: 'avg' }
+        ]
+      });
+    });
+
+    bench('monthly date columns', () => {
+      createPivotTable(data, { ...CONFIG, columns: [{ field: 'date', dateGrouping: { grain: 'month' } }] });
+    });
+  });
+}
+
+// One item per owner and day, like a daily board over four years; running totals and ranks walk
+// 1,500 columns per row and should stay close to the plain pivot
+describe('show values as, 50 owners × 1500 days', () => {
+  const data: PivotData[] = [];
+  for (let owner = 0; owner < 50; owner++) {
+    for (let day = 0; day < 1500; day++) {
+      data.push({ owner: `Owner ${owner}`, day: `Day ${String(day).padStart(4, '0')}`, hours: (owner * 7 + day * 13) % 17 });
+    }
+  }
+  const daily: PivotConfig = { rows: ['owner'], columns: ['day'], values: ['hours'], aggregation: 'sum' };
+
+  bench('plain', () => {
+    createPivotTable(data, daily);
+  });
+
+  bench('running total', () => {
+    createPivotTable(data, { ...daily, showValuesAs: { type: 'runningTotal', axis: 'columns' } });
+  });
+
+  bench('rank', () => {
+    createPivotTable(data, { ...daily, showValuesAs: { type: 'rank', axis: 'columns' } });
+  });
+});
@@ -0,0 +1,373 @@
+import { describe, expect, it } from 'vitest';
+import {
+  applyFilters,
+  createPivotEngine,
+  createPivotTable,
+  diffPivotItems,
+  getCellKey,
+  getGroupKey,
+  getPivotCellValue,
+  PivotConfig,
+  PivotData,
+  PivotEngine,
+  PivotFilter,
+  PivotItemChanges,
+  PivotResult,
+  PivotSortSpec
+} from './pivot';
+import { createSyntheticBoard } from './fixtures/syntheticBoard';
+
+// Sums the way the engine did before the group index: one scan of the data per cell
+function sumByFilter(data: PivotData[], row: Record<string, unknown>, column: Record<string, unknown>): number {
+  const matches = (item: PivotData, path: Record<string, unknown>) =>
+    Object.keys(path).every(field => String(item[field]) === String(path[field]));
+  return data
+    .filter(item => matches(item, row) && matches(item, column))
+    .reduce((sum, item) => sum + Number(item.budget), 0);
+}
+
+describe('createPivotTable', () => {
+  const data = createSyntheticBoard({ items: 2000, rows: 12, columns: 8 });
+
+  it('matches a per-cell scan of the data on a synthetic board', () => {
+    const result = createPivotTable(data, { rows: ['group', 'owner'], columns: ['status'], values: ['budget'], aggregation: 'sum' });
+
+    for (const groupNode of result.rowTree) {
+      for (const ownerNode of groupNode.children) {
+        for (const statusKey of result.columnKeys) {
+          const status = result.columnTree.find(node => node.key === statusKey)!.label;
+          expect(getPivotCellValue(result, ownerNode.key, statusKey))
+            .toBe(sumByFilter(data, { group: groupNode.label, owner: ownerNode.label }, { status }));
+        }
+      }
+      // Subtotal and row total
+      expect(getPivotCellValue(result, groupNode.key, '')).toBe(sumByFilter(data, { group: groupNode.label }, {}));
+    }
+    expect(getPivotCellValue(result, '', '')).toBe(sumByFilter(data, {}, {}));
+  });
+
+  it('keeps every item in exactly one leaf cell', () => {
+    const result = createPivotTable(data, { rows: ['owner'], columns: ['status'], values: ['budget'], aggregation: 'sum' });
+    const members = result.rowKeys.flatMap(rowKey =>
+      result.columnKeys.flatMap(columnKey => result.members[getCellKey(rowKey, columnKey)] || [])
+    );
+    expect(members.sort((a, b) => a - b)).toEqual(data.map((_, index) => index));
+    expect(result.members[getCellKey('', '')]).toHaveLength(data.length);
+  });
+
+  // Per-cell scans read every item once per cell; the group index reads each grouping value a few times
+  it('reads each item a fixed number of times on a 5,000 item board with 50 rows and 40 columns', () => {
+    let reads = 0;
+    const board = createSyntheticBoard({ items: 5000, rows: 50, columns: 40 }).map(item => new Proxy(item, {
+      get(target, field) {
+        reads++;
+        return Reflect.get(target, field);
+      }
+    }));
+    const result = createPivotTable(board, { rows: ['owner'], columns: ['status'], values: ['budget'], aggregation: 'sum' });
+    expect(reads / board.length).toBeLessThan(10);
+    expect(result.rowKeys).toHaveLength(50);
+    expect(result.columnKeys).toHaveLength(40);
+    expect(result.rowKeys[0]).toBe(getGroupKey(['Owner 0']));
+  });
+});
+
+describe('filters', () => {
+  const items: PivotData[] = [
+    { id: '1', team: 'A', owner: 'Ann', status: 'Open', points: 3, due: '2024-03-30T09:00:00Z' },
+    { id: '2', team: 'A', owner: 'Ann', status: 'Done', points: 5, due: '2024-03-31T17:30:00Z' },
+    { id: '3', team: 'A', owner: 'Bob', status: 'Open', points: 9, due: '2024-04-01T00:00:00Z' },
+    { id: '4', team: 'B', owner: 'Cid', status: 'Stuck', points: 13, due: null },
+    { id: '5', team: 'B', owner: 'Dee', status: 'Open', points: 2, due: '2024-03-01' },
+    { id: '6', team: 'B', owner: 'Eve', status: '', points: 1, due: '2024-02-15' }
+  ];
+  const ids = (filters: PivotFilter[]) => applyFilters(items, filters).map(item => item.id);
+
+  it('keeps the items every item filter matches', () => {
+    expect(ids([{ field: 'status', type: 'equals', value: 'Open' }])).toEqual(['1', '3', '5']);
+    expect(ids([{ field: 'status', type: 'in', values: ['Done', 'Stuck'] }])).toEqual(['2', '4']);
+    expect(ids([{ field: 'owner', type: 'contains', text: 'E' }])).toEqual(['5', '6']);
+    expect(ids([{ field: 'owner', type: 'contains', text: 'E', caseSensitive: true }])).toEqual(['6']);
+    expect(ids([{ field: 'points', type: 'range', min: 3, max: 9 }])).toEqual(['1', '2', '3']);
+    expect(ids([{ field: 'status', type: 'empty' }])).toEqual(['6']);
+    expect(ids([{ field: 'status', type: 'empty', exclude: true }, { field: 'team', type: 'equals', value: 'B' }]))
+      .toEqual(['4', '5']);
+  });
+
+  it('takes in the whole end day of a date-only range', () => {
+    expect(ids([{ field: 'due', type: 'dateRange', from: '2024-03-01', to: '2024-03-31' }])).toEqual(['1', '2', '5']);
+    expect(ids([{ field: 'due', type: 'dateRange', to: new Date('2024-03-31T12:00:00Z') }])).toEqual(['1', '5', '6']);
+    expect(ids([{ field: 'due', type: 'dateRange', from: '2024-04-01' }])).toEqual(['3']);
+  });
+
+  it('keeps the top groups within each parent and drops groups failing a condition', () => {
+    const config: PivotConfig = { rows: ['team', 'owner'], columns: [], values: ['points'], aggregation: 'sum' };
+    const labels = (result: PivotResult) => result.rowTree.map(node => [node.label, node.children.map(child => child.label)]);
+
+    const top = createPivotTable(items, { ...config, valueFilters: [{ field: 'owner', type: 'top', count: 1 }] });
+    expect(labels(top)).toEqual([['A', ['Bob']], ['B', ['Cid']]]);
+
+    const bottom = createPivotTable(items, { ...config, valueFilters: [{ field: 'owner', type: 'bottom', count: 2 }] });
+    expect(labels(bottom)).toEqual([['A', ['Ann', 'Bob']], ['B', ['Dee', 'Eve']]]);
+
+    const condition = createPivotTable(items, {
+      ...config,
+      valueFilters: [{ field: 'team', type: 'condition', operator: '>', value: 16 }]
+    });
+    expect(labels(condition)).toEqual([['A', ['Ann', 'Bob']]]);
+  });
+});
+
+describe('header sorting', () => {
+  const items: PivotData[] = [
+    { sprint: 'Q10', status: 'open', points: 1 },
+    { sprint: 'Q2', status: 'Done', points: 7 },
+    { sprint: 'Q1', status: 'Stuck', points: 4 },
+    { sprint: 'q3', status: 'Done', points: 2 },
+    { sprint: 'Q1', status: 'open', points: 9 }
+  ];
+  const rowLabels = (sort: PivotSortSpec) =>
+    createPivotTable(items, { rows: [{ field: 'sprint', sort }], columns: ['status'], values: ['points'], aggregation: 'sum' })
+      .rowTree.map(node => node.label);
+
+  it('sorts labels naturally by default and by code point with by: label', () => {
+    expect(rowLabels({})).toEqual(['Q1', 'Q2', 'q3', 'Q10']);
+    expect(rowLabels({ order: 'desc' })).toEqual(['Q10', 'q3', 'Q2', 'Q1']);
+    expect(rowLabels({ by: 'label' })).toEqual(['Q1', 'Q10', 'Q2', 'q3']);
+  });
+
+  it('puts custom ordered labels first whatever the direction', () => {
+    expect(rowLabels({ customOrder: ['q3', 'Q2'] })).toEqual(['q3', 'Q2', 'Q1', 'Q10']);
+    expect(rowLabels({ customOrder: ['q3', 'Q2'], order: 'desc' })).toEqual(['q3', 'Q2', 'Q10', 'Q1']);
+  });
+
+  it('sorts by a measure total or by the value in one column', () => {
+    expect(rowLabels({ by: 'value', order: 'desc' })).toEqual(['Q1', 'Q2', 'q3', 'Q10']);
+    expect(rowLabels({ by: 'value', crossKey: getGroupKey(['Done']) })).toEqual(['Q10', 'Q1', 'q3', 'Q2']);
+  });
+
+  it('sorts column headers per field too', () => {
+    const result = createPivotTable(items, {
+      rows: ['sprint'],
+      columns: [{ field: 'status', sort: { by: 'value', order: 'desc' } }],
+      values: ['points'],
+      aggregation: 'sum'
+    });
+    expect(result.columnTree.map(node => node.label)).toEqual(['open', 'Done', 'Stuck']);
+  });
+});
+
+describe('aggregators', () => {
+  const timeline = (from: string, to: string) => ({ from: new Date(from), to: new Date(to) });
+
+  it('counts distinct timelines, dates and lists by their contents', () => {
+    const data: PivotData[] = [
+      { team: 'A', sprint: timeline('2024-01-01', '2024-01-14'), due: new Date('2024-02-01'), tags: ['x', 'y'] },
+      { team: 'A', sprint: timeline('2024-01-01', '2024-01-14'), due: new Date('2024-02-01'), tags: ['x', 'y'] },
+      { team: 'A', sprint: timeline('2024-01-15', '2024-01-28'), due: new Date('2024-02-02'), tags: ['x'] },
+      { team: 'A', sprint: { from: null, to: null }, due: null, tags: [] }
+    ];
+    const result = createPivotTable(data, {
+      rows: ['team'],
+      columns: [],
+      values: [],
+      aggregation: 'countDistinct',
+      measures: ['sprint', 'due', 'tags'].map(field => ({ field, aggregation: 'countDistinct' }))
+    });
+    expect(result.cells[getCellKey(result.rowKeys[0], '')]).toEqual([2, 2, 2]);
+  });
+});
+
+describe('show values as', () => {
+  // One item per owner and day, like a daily board over four years
+  const createDailyGrid = (owners: number, days: number): PivotData[] => {
+    const data: PivotData[] = [];
+    for (let owner = 0; owner < owners; owner++) {
+      for (let day = 0; day < days; day++) {
+        data.push({ owner: `Owner ${owner}`, day: `Day ${String(day).padStart(4, '0')}`, hours: (owner * 7 + day * 13) % 17 });
+      }
+    }
+    return data;
+  };
+  const config: PivotConfig = { rows: ['owner'], columns: ['day'], values: ['hours'], aggregation: 'sum' };
+
+  it('matches running totals and ranks worked out cell by cell', () => {
+    const data = createDailyGrid(4, 30);
+    const raw = createPivotTable(data, config);
+    const running = createPivotTable(data, { ...config, showValuesAs: { type: 'runningTotal', axis: 'columns' } });
+    const rankDesc = createPivotTable(data, { ...config, showValuesAs: { type: 'rank', axis: 'columns' } });
+    const rankAsc = createPivotTable(data, { ...config, showValuesAs: { type: 'rank', axis: 'columns', order: 'asc' } });
+
+    for (const rowKey of raw.rowKeys) {
+      const values = raw.columnKeys.map(columnKey => getPivotCellValue(raw, rowKey, columnKey));
+      raw.columnKeys.forEach((columnKey, index) => {
+        const value = values[index];
+        expect(getPivotCellValue(running, rowKey, columnKey)).toBe(values.slice(0, index + 1).reduce((a, b) => a + b, 0));
+        expect(getPivotCellValue(rankDesc, rowKey, columnKey)).toBe(1 + values.filter(other => other > value).length);
+        expect(getPivotCellValue(rankAsc, rowKey, columnKey)).toBe(1 + values.filter(other => other < value).length);
+      });
+    }
+  });
+
+  it('leaves blank cells out of ranks', () => {
+    const data: PivotData[] = [
+      { owner: 'Ann', day: 'Mon', hours: 3 },
+      { owner: 'Ann', day: 'Tue', hours: 0 },
+      { owner: 'Ann', day: 'Wed', hours: 5 }
+    ];
+    // Days without hours are blank
+    const ranked = createPivotTable(data, {
+      ...config,
+      measures: [{
+        aggregation: 'formula',
+        formula: 'if(sum([hours]) > 0, sum([hours]), null)',
+        showAs: { type: 'rank', axis: 'columns' }
+      }]
+    });
+    const [mon, tue, wed] = ranked.columnKeys.map(columnKey => getPivotCellValue(ranked, ranked.rowKeys[0], columnKey));
+    expect([mon, wed]).toEqual([2, 1]);
+    expect(tue).toBeNaN();
+  });
+});
+
+describe('createPivotEngine', () => {
+  const config: PivotConfig = {
+    rows: ['team'],
+    columns: ['status'],
+    values: ['points'],
+    aggregation: 'sum',
+    measures: [
+      { field: 'points', aggregation: 'sum' },
+      { field: 'points', aggregation: 'count' },
+      { field: 'points', aggregation: 'first' },
+      { field: 'points', aggregation: 'last' },
+      { field: 'points', aggregation: 'median' },
+      { field: 'points', aggregation: 'max' }
+    ]
+  };
+
+  // Cells, headers and the ids behind every cell, in order, of an engine or a full build of `data`
+  const snapshot = (result: PivotResult, items: (PivotData | undefined)[]) => ({
+    rowKeys: result.rowKeys,
+    columnKeys: result.columnKeys,
+    cells: result.cells,
+    members: Object.fromEntries(Object.entries(result.members).map(([key, positions]) =>
+      [key, positions.map(position => items[position]!.id)]))
+  });
+  const expectRebuilt = (engine: PivotEngine, data: PivotData[]) => {
+    expect(snapshot(engine.result, engine.items)).toEqual(snapshot(createPivotTable(data, config), data));
+  };
+  const update = (engine: PivotEngine, previous: PivotData[], next: PivotData[]) => {
+    const changes = diffPivotItems(previous, next);
+    expect(changes).not.toBeNull();
+    engine.update(changes as PivotItemChanges);
+  };
+
+  const board: PivotData[] = [
+    { id: '1', team: 'A', status: 'Open', points: 1 },
+    { id: '2', team: 'A', status: 'Open', points: 2 },
+    { id: '3', team: 'A', status: 'Open', points: 5 },
+    { id: '4', team: 'A', status: 'Open', points: 3 },
+    { id: '5', team: 'B', status: 'Done', points: 8 },
+    { id: '6', team: 'B', status: 'Open', points: 13 },
+    { id: '7', team: 'B', status: 'Done', points: 17 },
+    { id: '8', team: 'A', status: 'Done', points: 21 },
+    { id: '9', team: 'B', status: 'Open', points: 34 },
+    { id: '10', team: 'A', status: 'Done', points: 55 }
+  ];
+
+  it('matches a full build after an item is filtered out and shown again', () => {
+    const hidden = board.filter(item => item.id !== '3');
+    const engine = createPivotEngine(board, config);
+    update(engine, board, hidden);
+    expectRebuilt(engine, hidden);
+    update(engine, hidden, board);
+    expectRebuilt(engine, board);
+  });
+
+  it('matches a full build when an item moves into a cell that also gets a new item', () => {
+    const next = board.map(item => (item.id === '5' ? { ...item, status: 'Open' } : item));
+    next.splice(6, 0, { id: '11', team: 'B', status: 'Open', points: 71 });
+    const engine = createPivotEngine(board, config);
+    update(engine, board, next);
+    expectRebuilt(engine, next);
+  });
+
+  it('counts an item once when a batch names it more than once', () => {
+    const engine = createPivotEngine(board, config);
+    engine.update({
+      upserted: [{ id: '1', team: 'A', status: 'Open', points: 100 }, { id: '1', team: 'A', status: 'Open', points: 4 }],
+      removed: ['2']
+    });
+    engine.update({ upserted: [{ id: '2', team: 'A', status: 'Open', points: 6 }], removed: ['2'] });
+    const expected = [
+      { id: '1', team: 'A', status: 'Open', points: 4 },
+      ...board.slice(2),
+      { id: '2', team: 'A', status: 'Open', points: 6 }
+    ];
+    expectRebuilt(engine, expected);
+    expect(getPivotCellValue(engine.result, getGroupKey(['A']), getGroupKey(['Open']))).toBe(4 + 5 + 3 + 6);
+  });
+
+  it('leaves results it returned earlier untouched by later updates', () => {
+    // Big enough that two changes are patched in rather than rebuilt
+    const data = [...board, ...board.map(item => ({ ...item, id: `${item.id}b` }))];
+    const sorted: PivotConfig = { ...config, rows: [{ field: 'team', sort: { by: 'value', order: 'desc' } }] };
+    const engine = createPivotEngine(data, sorted);
+    const first = engine.result;
+    expect(first.rowTree.map(node => node.label)).toEqual(['A', 'B']);
+    const copy = structuredClone(first);
+
+    const next = data
+      .filter(item => item.id !== '10')
+      .concat({ id: '11', team: 'C', status: 'Review', points: 500 });
+    update(engine, data, next);
+    expect(engine.result.rowTree.map(node => node.label)).toEqual(['C', 'B', 'A']);
+    expect(first).toEqual(copy);
+  });
+
+  it('leaves items out of diffs it cannot describe', () => {
+    expect(diffPivotItems(board, [...board].reverse())).toBeNull();
+    expect(diffPivotItems(board, [...board, board[0]])).toBeNull();
+    expect(diffPivotItems(board, [...board, { id: '11', points: 1 }])).toEqual({ upserted: [{ id: '11', points: 1 }], removed: [] });
+  });
+
+  it('matches a full build over random board changes', () => {
+    let seed = 7;
+    const random = () => (seed = (seed * 16807) % 2147483647) / 2147483647;
+    const pick = <T>(values: T[]) => values[Math.floor(random() * values.length)];
+    let nextId = 100;
+    const createItem = (id: string): PivotData => ({
+      id,
+      team: pick(['A', 'B', 'C']),
+      status: pick(['Open', 'Done', 'Blocked']),
+      points: Math.floor(random() * 50)
+    });
+
+    const all = Array.from({ length: 60 }, () => createItem(String(nextId++)));
+    let hidden = new Set<string>();
+    let current = all.slice();
+    const engine = createPivotEngine(current, config);
+
+    for (let step = 0; step < 200; step++) {
+      const action = random();
+      if (action < 0.3) {
+        // Filter out or show again, keeping the board order
+        const id = pick(all).id as string;
+        hidden = new Set(hidden);
+        if (hidden.has(id)) hidden.delete(id); else hidden.add(id);
+      } else if (action < 0.6) {
+        const index = Math.floor(random() * all.length);
+        all[index] = { ...createItem(all[index].id as string) };
+      } else if (action < 0.8) {
+        all.splice(Math.floor(random() * (all.length + 1)), 0, createItem(String(nextId++)));
+      } else if (all.length > 10) {
+        all.splice(Math.floor(random() * all.length), 1);
+      }
+      const next = all.filter(item => !hidden.has(item.id as string));
+      update(engine, current, next);
+      expectRebuilt(engine, next);
+      current = next;
+    }
+  });
+});
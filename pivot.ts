@@ -1,101 +1,1761 @@
+import { formatDatePeriod, getDatePeriod, normalizeDateGrouping } from './pivotDates';
+import { getBin, getQuantileEdges } from './pivotBins';
+import { formatNumber } from './pivotNumberFormat';
+import { PivotExpression, PivotExpressionError, parseExpression } from './pivotExpressions';
+
 export interface PivotData {
   [key: string]: any;
 }
 
+// Span value such as a monday timeline; either end may be open
+export interface PivotRange {
+  from: Date | null;
+  to: Date | null;
+}
+
+export type PivotFieldType = 'number' | 'text' | 'date' | 'boolean' | 'list' | 'range';
+
+export interface PivotFieldSchema {
+  name: string;
+  type: PivotFieldType;
+}
+
+export type BuiltInAggregation =
+  | 'sum'
+  | 'count'
+  | 'countNonEmpty'
+  | 'countDistinct'
+  | 'avg'
+  | 'min'
+  | 'max'
+  | 'median'
+  | 'p90'
+  | 'percentile'
+  | 'stdev'
+  | 'variance'
+  | 'first'
+  | 'last'
+  // Computed from other aggregates by the measure's `formula`
+  | 'formula';
+
+// Built-in names, or any name added through registerAggregator
+export type PivotAggregation = BuiltInAggregation | (string & {});
+
+// A value column of the pivot: one field aggregated one way, shown under its own label
+export interface PivotMeasure {
+  field?: string;
+  aggregation: PivotAggregation;
+  label?: string;
+  // Used by the 'percentile' aggregation, 0-100
+  percentile?: number;
+  // Used by the 'formula' aggregation, e.g. "sum(profit) / sum(revenue)"
+  formula?: string;
+  showAs?: PivotShowValuesAs;
+  format?: PivotNumberFormat;
+}
+
+// How a measure's values read, in the viewer's locale
+export interface PivotNumberFormat {
+  // Percentages are stored as fractions, so 0.25 reads as 25%
+  style?: 'number' | 'currency' | 'percent';
+  // Fixed decimals; by default integers get none and other numbers two
+  decimals?: number;
+  // ISO 4217 code for the 'currency' style, 'USD' by default
+  currency?: string;
+  // Short form such as 1.2M
+  compact?: boolean;
+  prefix?: string;
+  suffix?: string;
+  // -1,234 or (1,234)
+  negative?: 'minus' | 'parentheses';
+}
+
+export type PivotAxis = 'rows' | 'columns';
+
+// Display transformation applied to a measure after aggregation; percentages are stored as fractions
+export type PivotShowValuesAs =
+  | { type: 'percentOfRow' }
+  | { type: 'percentOfColumn' }
+  | { type: 'percentOfGrandTotal' }
+  | { type: 'runningTotal'; axis: PivotAxis }
+  // Compares each item with the item labelled `baseItem` at the `field` level (innermost by default)
+  | { type: 'differenceFrom'; axis: PivotAxis; baseItem: string; field?: string; percent?: boolean }
+  // 1 is the largest value among siblings unless `order` is 'asc'
+  | { type: 'rank'; axis: PivotAxis; order?: 'asc' | 'desc' };
+
+// Incremental state of one measure for one cell, fed every item that falls into the cell
+export interface PivotAccumulator {
+  add(value: unknown, item: PivotData): void;
+  // Undoes an earlier add, for live updates. Only for results that do not depend on the order items
+  // arrive in; cells with accumulators that lack it are rebuilt from their items instead.
+  remove?(value: unknown, item: PivotData): void;
+  result(): number;
+}
+
+export type PivotAggregatorFactory = (measure: PivotMeasure) => PivotAccumulator;
+
+// Predicate on one field, applied to items before they are pivoted; `exclude` inverts it
+export type PivotFilter = { field: string; exclude?: boolean } & (
+  | { type: 'equals'; value: unknown }
+  | { type: 'in'; values: unknown[] }
+  | { type: 'contains'; text: string; caseSensitive?: boolean }
+  | { type: 'range'; min?: number; max?: number }
+  // A date-only `to` such as "2024-03-31" takes in the whole day
+  | { type: 'dateRange'; from?: Date | string; to?: Date | string }
+  | { type: 'empty' }
+);
+
+export type PivotComparison = '>' | '>=' | '<' | '<=' | '=' | '!=';
+
+// Filter on the aggregated groups of a row or column field, compared within each parent group.
+// `measure` is an index into the resolved measures and defaults to the first one.
+export type PivotValueFilter = { field: string; measure?: number } & (
+  | { type: 'top' | 'bottom'; count: number }
+  | { type: 'condition'; operator: PivotComparison; value: number }
+);
+
+export interface PivotSortSpec {
+  order?: 'asc' | 'desc';
+  // 'natural' (the default) compares embedded numbers numerically, so "Q2" comes before "Q10"
+  by?: 'natural' | 'label' | 'value';
+  // Labels listed here come first, in this order; the rest follow sorted by `by`
+  customOrder?: string[];
+  // For 'value': which measure to sort by and the key on the other axis to read it from
+  // (the total by default)
+  measure?: number;
+  crossKey?: string;
+}
+
+export type PivotDateGrain = 'year' | 'quarter' | 'month' | 'week' | 'day' | 'dayOfWeek';
+
+// Buckets date values into periods; 'week' is the ISO week starting on Monday
+export interface PivotDateGrouping {
+  grain: PivotDateGrain;
+  // First month of the fiscal year, 1-12; years and quarters count from it and are named
+  // after the year they end in ("FY2025")
+  fiscalYearStart?: number;
+  // IANA zone whose calendar decides the period, e.g. 'America/New_York'; UTC by default
+  timeZone?: string;
+  // Adds empty periods between the first and last one present; on by default
+  fillGaps?: boolean;
+}
+
+// Buckets numeric values into ranges labelled like "10k–20k"
+export type PivotBinning =
+  // Ranges of equal `width` counted from `start` (0 by default)
+  | { type: 'width'; width: number; start?: number }
+  // Ranges between consecutive edges; values outside them get "< first" and "> last" bins
+  | { type: 'edges'; edges: number[] }
+  // `count` ranges holding about the same number of items
+  | { type: 'quantile'; count: number };
+
+export interface PivotGroupField {
+  field: string;
+  label?: string;
+  sort?: PivotSortSpec;
+  dateGrouping?: PivotDateGrain | PivotDateGrouping;
+  bins?: PivotBinning;
+}
+
+// A row or column grouping: a plain field name or a field with grouping options
+export type PivotField = string | PivotGroupField;
+
+// A field computed for every item before filtering and grouping, e.g. "budget - spent"
+export interface PivotCalculatedField {
+  name: string;
+  expression: string;
+}
+
 export interface PivotConfig {
-  rows: string[];
-  columns: string[];
+  rows: PivotField[];
+  columns: PivotField[];
   values: string[];
-  aggregation?: 'sum' | 'count' | 'avg' | 'min' | 'max';
+  aggregation?: PivotAggregation;
+  // Takes precedence over `values`/`aggregation` when set
+  measures?: PivotMeasure[];
+  // Default display transformation for measures that do not set their own
+  showValuesAs?: PivotShowValuesAs;
+  filters?: PivotFilter[];
+  valueFilters?: PivotValueFilter[];
+  // Evaluated in order, so later fields can use earlier ones
+  calculatedFields?: PivotCalculatedField[];
+}
+
+// One header in the row or column hierarchy; `key` encodes the full path from the root
+export interface PivotHeaderNode {
+  key: string;
+  label: string;
+  field: string;
+  depth: number;
+  path: string[];
+  children: PivotHeaderNode[];
 }
 
 export interface PivotResult {
+  // Leaf grid of the first measure
   data: number[][];
   rowHeaders: string[];
   columnHeaders: string[];
+  rowFields: string[];
+  columnFields: string[];
+  rowKeys: string[];
+  columnKeys: string[];
+  rowTree: PivotHeaderNode[];
+  columnTree: PivotHeaderNode[];
+  measures: PivotMeasure[];
+  // One value per measure for every row node × column node pair, including subtotals; '' is the total key.
+  // NaN marks a cell where the measure's display transformation does not apply.
+  cells: Record<string, number[]>;
+  // Indices into the input data of the items behind each cell, keyed like `cells`
+  members: Record<string, number[]>;
+}
+
+// Changes to the items behind a PivotEngine; items are matched on their id field
+export interface PivotItemChanges {
+  // New items, and new versions of items already in the pivot
+  upserted?: PivotData[];
+  // Ids of items that are gone
+  removed?: string[];
+  // Ids of every item in data order, for when new items do not simply follow the others, e.g. a filtered-out
+  // item shown again. Items already in the pivot must keep their order. Without it new items go last.
+  order?: string[];
+}
+
+// A pivot kept up to date as items change, see createPivotEngine
+export interface PivotEngine {
+  readonly result: PivotResult;
+  // What `result.members` points into: the items with calculated fields applied. Removed items leave
+  // holes, so pass this rather than the input data to getPivotCellItems.
+  readonly items: (PivotData | undefined)[];
+  update(changes: PivotItemChanges): PivotResult;
+}
+
+// Mutable header node used while bucketing, before children are sorted
+interface HeaderBuilder {
+  node: PivotHeaderNode;
+  children: Map<string, HeaderBuilder>;
+}
+
+interface AxisFields {
+  groups: PivotGroupField[];
+  names: string[];
+}
+
+// Where a header sits among its siblings, for transformations that walk along an axis
+interface AxisPosition {
+  node: PivotHeaderNode;
+  siblings: PivotHeaderNode[];
+  index: number;
+}
+
+// Every item bucketed once into all of its row-prefix × column-prefix cells
+interface GroupIndex {
+  cells: Map<string, PivotAccumulator[]>;
+  members: Map<string, number[]>;
+  // Position of date-period and bin headers by group key; such headers sort by it instead of by label
+  orders: Map<string, number>;
+  rowRoot: HeaderBuilder;
+  columnRoot: HeaderBuilder;
+}
+
+interface RegisteredAggregator {
+  label: string;
+  factory: PivotAggregatorFactory;
+}
+
+const aggregators = new Map<string, RegisteredAggregator>();
+
+const naturalCollator = new Intl.Collator(undefined, { numeric: true, sensitivity: 'base' });
+
+const KEY_SEPARATOR = '\u001f';
+const CELL_SEPARATOR = '\u001e';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function getGroupKey(path: string[]): string {
+  return path.map(value => value + KEY_SEPARATOR).join('');
+}
+
+export function getCellKey(rowKey: string, columnKey: string): string {
+  return rowKey + CELL_SEPARATOR + columnKey;
+}
+
+export function getPivotCellValue(
+  result: PivotResult,
+  rowKey: string,
+  columnKey: string,
+  measureIndex = 0
+): number {
+  const cell = result.cells[getCellKey(rowKey, columnKey)];
+  return cell ? cell[measureIndex] : 0;
+}
+
+// Items behind a cell or subtotal; `data` must be the array the result was built from
+export function getPivotCellItems(
+  result: PivotResult,
+  data: PivotData[],
+  rowKey: string,
+  columnKey: string
+): PivotData[] {
+  const members = result.members[getCellKey(rowKey, columnKey)];
+  return members ? members.map(position => data[position]) : [];
+}
+
+export function normalizeField(field: PivotField): PivotGroupField {
+  return typeof field === 'string' ? { field } : field;
+}
+
+// Name a grouping is referred to by in results, filters and transformations
+export function getFieldName(field: PivotField): string {
+  const group = normalizeField(field);
+  return group.label || group.field;
+}
+
+// Measures with defaults filled in, falling back to one measure per legacy value field
+export function resolveMeasures(config: PivotConfig): PivotMeasure[] {
+  const { values, aggregation = 'sum', measures, showValuesAs } = config;
+  const configured: PivotMeasure[] = measures && measures.length > 0
+    ? measures
+    : values.map(field => ({ field, aggregation }));
+
+  if (configured.length === 0) {
+    return [{ aggregation: 'count', label: getAggregatorLabel('count') }];
+  }
+
+  return configured.map(measure => ({
+    ...measure,
+    label: measure.label || getMeasureLabel(measure),
+    showAs: measure.showAs || showValuesAs
+  }));
+}
+
+export function isPercentageMeasure(measure: PivotMeasure): boolean {
+  const { showAs } = measure;
+  if (!showAs) return false;
+  return showAs.type === 'percentOfRow' ||
+    showAs.type === 'percentOfColumn' ||
+    showAs.type === 'percentOfGrandTotal' ||
+    (showAs.type === 'differenceFrom' && !!showAs.percent);
+}
+
+// Display text for a cell value, as the table renders it
+export function formatPivotValue(value: number, measure: PivotMeasure, locale?: string): string {
+  // NaN marks cells where a "show values as" transformation has nothing to show
+  if (Number.isNaN(value)) return '';
+  return formatNumber(value, getMeasureNumberFormat(measure), locale);
+}
+
+// The measure's format, adjusted for transformations that change what its values mean
+export function getMeasureNumberFormat(measure: PivotMeasure): PivotNumberFormat {
+  const format = measure.format || {};
+  if (isPercentageMeasure(measure)) {
+    return { decimals: format.decimals, negative: format.negative, style: 'percent' };
+  }
+  if (measure.showAs && measure.showAs.type === 'rank') return { decimals: 0 };
+  return format;
+}
+
+function getMeasureLabel(measure: PivotMeasure): string {
+  if (measure.aggregation === 'formula') return measure.formula || 'Formula';
+  const name = measure.aggregation === 'percentile'
+    ? `P${measure.percentile ?? 50}`
+    : getAggregatorLabel(measure.aggregation);
+  return measure.field ? `${name} of ${measure.field}` : name;
+}
+
+// Makes an aggregation available to every measure by name; re-registering a name replaces it
+export function registerAggregator(
+  name: string,
+  factory: PivotAggregatorFactory,
+  label: string = name
+): void {
+  aggregators.set(name, { label, factory });
+}
+
+// Whether aggregators were registered or replaced after the built-in ones. Workers load their own
+// copy of this module, so they only know about these if the worker module registers them too.
+export function hasCustomAggregators(): boolean {
+  if (aggregators.size !== builtInAggregators.size) return true;
+  for (const [name, aggregator] of aggregators) {
+    if (builtInAggregators.get(name) !== aggregator) return true;
+  }
+  return false;
+}
+
+export function getAggregatorNames(): string[] {
+  return Array.from(aggregators.keys());
+}
+
+// The registered name a formula's SUM(...) or countdistinct(...) refers to
+function findAggregatorName(name: string): string | undefined {
+  if (aggregators.has(name)) return name;
+  const lower = name.toLowerCase();
+  return Array.from(aggregators.keys()).find(key => key.toLowerCase() === lower);
+}
+
+export function getAggregatorLabel(name: string): string {
+  const aggregator = aggregators.get(name);
+  return aggregator ? aggregator.label : name;
+}
+
+// Factories for every measure, with formulas parsed and their fields checked against the data
+function createMeasureFactories(measures: PivotMeasure[], data: PivotData[]): PivotAggregatorFactory[] {
+  let known: Set<string> | undefined;
+  return measures.map(measure => {
+    if (measure.aggregation !== 'formula') return getAggregatorFactory(measure.aggregation);
+
+    const context = `Formula "${measure.label || measure.formula || ''}"`;
+    const formula = parseFieldExpression(context, measure.formula || '', {
+      findAggregation: findAggregatorName,
+      aggregatesOnly: true
+    });
+    known = known || collectFieldNames(data);
+    checkFieldNames(context, formula.fields, known, data);
+    return formulaAggregator(formula, context);
+  });
+}
+
+// Feeds each aggregate of the formula its own accumulator and combines their results per cell
+function formulaAggregator(formula: PivotExpression, context: string): PivotAggregatorFactory {
+  const parts = formula.aggregates.map(({ aggregation, field }) => ({
+    field,
+    factory: getAggregatorFactory(aggregation),
+    measure: { field, aggregation }
+  }));
+
+  return () => {
+    const accumulators = parts.map(part => part.factory(part.measure));
+    return {
+      add: (_value, item) => {
+        for (let i = 0; i < parts.length; i++) {
+          const { field } = parts[i];
+          accumulators[i].add(field ? item[field] : undefined, item);
+        }
+      },
+      remove: accumulators.every(accumulator => accumulator.remove)
+        ? (_value, item) => {
+          for (let i = 0; i < parts.length; i++) {
+            const { field } = parts[i];
+            accumulators[i].remove!(field ? item[field] : undefined, item);
+          }
+        }
+        : undefined,
+      result: () => {
+        const value = formula.evaluate({ aggregate: i => accumulators[i].result() });
+        // Blank results, such as a division by zero, show as empty cells
+        if (value === null) return NaN;
+        if (typeof value !== 'number') {
+          throw new PivotExpressionError(`${context} must give a number, got ${typeof value === 'string' ? 'text' : typeof value}`);
+        }
+        return value;
+      }
+    };
+  };
+}
+
+function parseFieldExpression(
+  context: string,
+  source: string,
+  options: Parameters<typeof parseExpression>[1]
+): PivotExpression {
+  try {
+    return parseExpression(source, options);
+  } catch (error) {
+    throw new PivotExpressionError(`${context}: ${(error as Error).message}`);
+  }
+}
+
+// Fields no item has are almost always typos; with no data there is nothing to check against
+function checkFieldNames(context: string, fields: string[], known: Set<string>, data: PivotData[]): void {
+  if (data.length === 0) return;
+  const unknown = fields.find(field => !known.has(field));
+  if (unknown !== undefined) {
+    throw new PivotExpressionError(`${context}: Unknown field "${unknown}"`);
+  }
+}
+
+function collectFieldNames(data: PivotData[]): Set<string> {
+  const names = new Set<string>();
+  for (const item of data) {
+    for (const key of Object.keys(item)) names.add(key);
+  }
+  return names;
+}
+
+function getAggregatorFactory(name: string): PivotAggregatorFactory {
+  const aggregator = aggregators.get(name);
+  if (!aggregator) {
+    throw new Error(`Unknown aggregation "${name}"`);
+  }
+  return aggregator.factory;
 }
 
 export function createPivotTable(
   data: PivotData[],
   config: PivotConfig
 ): PivotResult {
-  const { rows, columns, values, aggregation = 'sum' } = config;
-  
-  if (!data || data.length === 0) {
-    return {
-      data: [],
-      rowHeaders: [],
-      columnHeaders: []
+  const { filters = [], calculatedFields = [] } = config;
+  const measures = resolveMeasures(config);
+  data = data ? applyCalculatedFields(data, calculatedFields) : [];
+  const factories = createMeasureFactories(measures, data);
+  return buildPivotResult(data, filterPositions(data, filters), config, measures, factories);
+}
+
+// A pivot that follows item changes without re-pivoting everything: only the cells a changed item
+// falls into, before and after the change, are re-aggregated, then headers are re-sorted and display
+// transformations re-run on the aggregates. Value filters and quantile bins depend on every item,
+// so configs using them are rebuilt in full on each update.
+export function createPivotEngine(data: PivotData[], config: PivotConfig, idField = 'id'): PivotEngine {
+  const { filters = [], valueFilters = [], calculatedFields = [] } = config;
+  const measures = resolveMeasures(config);
+  data = data || [];
+  const calculate = compileCalculatedFields(data, calculatedFields);
+  let items: (PivotData | undefined)[] = data.map(calculate);
+  const factories = createMeasureFactories(measures, items as PivotData[]);
+  const incremental = valueFilters.length === 0 &&
+    ![...config.rows, ...config.columns].some(field => normalizeField(field).bins?.type === 'quantile');
+
+  const positions = new Map<string, number>();
+  // Where each position's item sits in data order. New items can land between older ones (see
+  // PivotItemChanges.order), so members and order-sensitive aggregations such as first and last
+  // follow ranks rather than positions.
+  let ranks = items.map((_, position) => position);
+  let nextRank = items.length;
+  let live = 0;
+  let rows: AxisFields;
+  let columns: AxisFields;
+  let index: GroupIndex;
+  let rawCells: Record<string, number[]>;
+  let members: Record<string, number[]>;
+  let result: PivotResult;
+
+  const isIncluded = (item: PivotData) => filters.every(filter => matchesFilter(item, filter));
+  const includedPositions = () => {
+    const included: number[] = [];
+    items.forEach((item, position) => {
+      if (item && isIncluded(item)) included.push(position);
+    });
+    return included;
+  };
+  const byRank = (a: number, b: number) => ranks[a] - ranks[b];
+
+  // Finishing sorts and gap-fills the header trees in place, and updates patch the cells, so every
+  // result gets copies of both; results handed out earlier stay as they were
+  const finish = () => finishPivotResult(
+    {
+      ...index,
+      orders: new Map(index.orders),
+      rowRoot: cloneHeaderBuilder(index.rowRoot),
+      columnRoot: cloneHeaderBuilder(index.columnRoot)
+    },
+    { ...rawCells },
+    { ...members },
+    measures,
+    rows,
+    columns,
+    valueFilters
+  );
+
+  // Drops the holes left by removed items, puts the rest back in data order and builds from scratch
+  const rebuild = () => {
+    const kept: number[] = [];
+    items.forEach((item, position) => {
+      if (item) kept.push(position);
+    });
+    kept.sort(byRank);
+    items = kept.map(position => items[position]);
+    ranks = items.map((_, position) => position);
+    nextRank = items.length;
+    positions.clear();
+    items.forEach((item, position) => {
+      if (item && item[idField] != null) positions.set(String(item[idField]), position);
+    });
+    live = items.length;
+
+    const included = includedPositions();
+    if (!incremental) {
+      result = buildPivotResult(items as PivotData[], included, config, measures, factories);
+      return;
+    }
+    rows = resolveAxisFields(config.rows, items as PivotData[], included);
+    columns = resolveAxisFields(config.columns, items as PivotData[], included);
+    index = buildGroupIndex(items as PivotData[], included, rows.groups, columns.groups, measures, factories);
+    rawCells = {};
+    members = {};
+    index.cells.forEach((accumulators, key) => {
+      rawCells[key] = accumulators.map(accumulator => accumulator.result());
+      members[key] = index.members.get(key) || [];
+    });
+    result = finish();
+  };
+
+  // One change per item: removals first, then upserts, a later version of an item replacing an earlier one.
+  // Null marks a removal; items without an id are always new.
+  const mergeChanges = (changes: PivotItemChanges) => {
+    const byId = new Map<string, PivotData | null>();
+    const unidentified: PivotData[] = [];
+    for (const id of changes.removed || []) byId.set(String(id), null);
+    for (const item of changes.upserted || []) {
+      if (item[idField] == null) {
+        unidentified.push(item);
+        continue;
+      }
+      const id = String(item[idField]);
+      // Re-inserted so new items are ranked by their last upsert
+      byId.delete(id);
+      byId.set(id, item);
+    }
+    return { byId, unidentified, size: byId.size + unidentified.length };
+  };
+
+  // Applies the changes to `items`. `leave` sees a position before its item goes or is replaced, `join`
+  // after its new version is in place, once new items have their ranks.
+  const applyChanges = (
+    changes: PivotItemChanges,
+    leave: (position: number) => void = () => undefined,
+    join: (position: number) => void = () => undefined
+  ) => {
+    const { byId, unidentified } = mergeChanges(changes);
+    const joined: number[] = [];
+    const place = (item: PivotData, id: string | undefined) => {
+      let position = id !== undefined ? positions.get(id) : undefined;
+      if (position !== undefined) {
+        leave(position);
+      } else {
+        position = items.length;
+        ranks[position] = nextRank++;
+        if (id !== undefined) positions.set(id, position);
+        live++;
+      }
+      items[position] = calculate(item, position);
+      joined.push(position);
+    };
+
+    byId.forEach((item, id) => {
+      if (item) return place(item, id);
+      const position = positions.get(id);
+      if (position === undefined) return;
+      leave(position);
+      items[position] = undefined;
+      positions.delete(id);
+      live--;
+    });
+    unidentified.forEach(item => place(item, undefined));
+
+    if (changes.order) {
+      const order = new Map(changes.order.map((id, rank) => [String(id), rank]));
+      const unordered = order.size;
+      items.forEach((item, position) => {
+        if (!item) return;
+        const rank = item[idField] != null ? order.get(String(item[idField])) : undefined;
+        ranks[position] = rank ?? unordered + position;
+      });
+      nextRank = unordered + items.length;
+    }
+    joined.forEach(join);
+  };
+
+  const update = (changes: PivotItemChanges): PivotResult => {
+    // Past this point bucketing everything again is cheaper than patching cell by cell
+    if (!incremental || mergeChanges(changes).size * 2 > live) {
+      applyChanges(changes);
+      rebuild();
+      return result;
+    }
+
+    // Positions leaving and joining each affected cell; `previous` keeps the versions being replaced
+    const touched = new Map<string, { removed: number[]; added: number[] }>();
+    const previous = new Map<number, PivotData>();
+    const touch = (rowKeys: string[], columnKeys: string[], position: number, kind: 'removed' | 'added') => {
+      for (const rowKey of rowKeys) {
+        for (const columnKey of columnKeys) {
+          const key = getCellKey(rowKey, columnKey);
+          let change = touched.get(key);
+          if (!change) {
+            change = { removed: [], added: [] };
+            touched.set(key, change);
+          }
+          change[kind].push(position);
+        }
+      }
     };
+    applyChanges(changes, position => {
+      const item = items[position];
+      if (!item || !isIncluded(item)) return;
+      previous.set(position, item);
+      touch([index.rowRoot.node.key, ...getPathKeys(item, rows.groups)],
+        [index.columnRoot.node.key, ...getPathKeys(item, columns.groups)], position, 'removed');
+    }, position => {
+      const item = items[position];
+      if (!item || !isIncluded(item)) return;
+      touch(insertPath(index.rowRoot, item, rows.groups, index.orders),
+        insertPath(index.columnRoot, item, columns.groups, index.orders), position, 'added');
+    });
+
+    touched.forEach((change, key) => {
+      const before = index.members.get(key) || [];
+      const leaving = new Set(change.removed);
+      change.added.sort(byRank);
+      const after = before.filter(position => !leaving.has(position)).concat(change.added);
+      if (change.added.length > 0) after.sort(byRank);
+
+      if (after.length === 0) {
+        index.cells.delete(key);
+        index.members.delete(key);
+        delete rawCells[key];
+        delete members[key];
+        return;
+      }
+
+      // Aggregations that cannot take values back, like first and last, are only patched when the new
+      // items all come after the cell's others in data order; updated items never do, they left first
+      let accumulators = index.cells.get(key);
+      const appended = change.removed.length === 0 && (before.length === 0 ||
+        ranks[change.added[0]] > ranks[before[before.length - 1]]);
+      const patchable = accumulators && (accumulators.every(accumulator => accumulator.remove) || appended);
+      if (accumulators && patchable) {
+        for (const position of change.removed) {
+          const item = previous.get(position) as PivotData;
+          accumulators.forEach((accumulator, i) =>
+            accumulator.remove!(measures[i].field ? item[measures[i].field!] : undefined, item));
+        }
+        for (const position of change.added) {
+          const item = items[position] as PivotData;
+          accumulators.forEach((accumulator, i) =>
+            accumulator.add(measures[i].field ? item[measures[i].field!] : undefined, item));
+        }
+      } else {
+        accumulators = factories.map((factory, i) => factory(measures[i]));
+        for (const position of after) {
+          const item = items[position] as PivotData;
+          accumulators.forEach((accumulator, i) =>
+            accumulator.add(measures[i].field ? item[measures[i].field!] : undefined, item));
+        }
+        index.cells.set(key, accumulators);
+      }
+
+      index.members.set(key, after);
+      rawCells[key] = accumulators.map(accumulator => accumulator.result());
+      members[key] = after;
+    });
+
+    pruneEmptyHeaders(index.rowRoot, key => index.cells.has(getCellKey(key, '')), index.orders);
+    pruneEmptyHeaders(index.columnRoot, key => index.cells.has(getCellKey('', key)), index.orders);
+
+    // Holes are cheap until they outnumber the items
+    if (items.length > live * 2) {
+      rebuild();
+    } else {
+      result = finish();
+    }
+    return result;
+  };
+
+  rebuild();
+
+  return {
+    get result() {
+      return result;
+    },
+    get items() {
+      return items;
+    },
+    update
+  };
+}
+
+// Changes that turn `previous` into `next`, matching items on `idField`. Items that did not change must
+// be the same objects. New items between older ones come with the data order. Null when items cannot be
+// matched because an id is missing or repeated, or when older items changed order, which decides
+// aggregations like first and last everywhere.
+export function diffPivotItems(
+  previous: PivotData[],
+  next: PivotData[],
+  idField = 'id'
+): PivotItemChanges | null {
+  const before = new Map<string, { item: PivotData; rank: number }>();
+  for (const item of previous) {
+    if (item[idField] == null || before.has(String(item[idField]))) return null;
+    before.set(String(item[idField]), { item, rank: before.size });
+  }
+
+  const upserted: PivotData[] = [];
+  const seen = new Set<string>();
+  let lastRank = -1;
+  let added = false;
+  let interleaved = false;
+  for (const item of next) {
+    if (item[idField] == null || seen.has(String(item[idField]))) return null;
+    const id = String(item[idField]);
+    seen.add(id);
+    const earlier = before.get(id);
+    if (!earlier) {
+      added = true;
+      upserted.push(item);
+      continue;
+    }
+    if (earlier.rank < lastRank) return null;
+    lastRank = earlier.rank;
+    interleaved = interleaved || added;
+    if (earlier.item !== item) upserted.push(item);
+  }
+
+  const removed = Array.from(before.keys()).filter(id => !seen.has(id));
+  return interleaved
+    ? { upserted, removed, order: next.map(item => String(item[idField])) }
+    : { upserted, removed };
+}
+
+// Pivots the items at `positions`, which must already have their calculated fields
+function buildPivotResult(
+  data: PivotData[],
+  positions: number[],
+  config: PivotConfig,
+  measures: PivotMeasure[],
+  factories: PivotAggregatorFactory[]
+): PivotResult {
+  const { valueFilters = [] } = config;
+  const rows = resolveAxisFields(config.rows, data, positions);
+  const columns = resolveAxisFields(config.columns, data, positions);
+
+  if (positions.length === 0) {
+    return createEmptyResult(measures, rows, columns);
   }
 
-  // Get unique values for row and column headers
-  const rowHeaders = getUniqueValues(data, rows);
-  const columnHeaders = getUniqueValues(data, columns);
+  let index = buildGroupIndex(data, positions, rows.groups, columns.groups, measures, factories);
 
-  // Create pivot table data
-  const pivotData: number[][] = [];
-  
-  for (let i = 0; i < rowHeaders.length; i++) {
-    const row: number[] = [];
-    for (let j = 0; j < columnHeaders.length; j++) {
-      const filteredData = data.filter(item => 
-        matchesGroup(item, rows, rowHeaders[i]) && 
-        matchesGroup(item, columns, columnHeaders[j])
+  // Value filters drop whole groups, then totals are rebuilt from the items that remain
+  if (valueFilters.length > 0) {
+    const excluded = findExcludedGroups(index, rows.names, columns.names, valueFilters);
+    if (excluded.rows.size > 0 || excluded.columns.size > 0) {
+      const remaining = positions.filter(position =>
+        !getPathKeys(data[position], rows.groups).some(key => excluded.rows.has(key)) &&
+        !getPathKeys(data[position], columns.groups).some(key => excluded.columns.has(key))
       );
-      
-      const aggregatedValue = aggregateValues(filteredData, values, aggregation);
-      row.push(aggregatedValue);
+      if (remaining.length === 0) {
+        return createEmptyResult(measures, rows, columns);
+      }
+      index = buildGroupIndex(data, remaining, rows.groups, columns.groups, measures, factories);
     }
-    pivotData.push(row);
   }
 
+  const rawCells: Record<string, number[]> = {};
+  const members: Record<string, number[]> = {};
+  index.cells.forEach((accumulators, key) => {
+    rawCells[key] = accumulators.map(accumulator => accumulator.result());
+    members[key] = index.members.get(key) || [];
+  });
+
+  return finishPivotResult(index, rawCells, members, measures, rows, columns, valueFilters);
+}
+
+// Sorts the bucketed headers and lays out the aggregates; `rawCells` holds every cell's results
+function finishPivotResult(
+  index: GroupIndex,
+  rawCells: Record<string, number[]>,
+  members: Record<string, number[]>,
+  measures: PivotMeasure[],
+  rows: AxisFields,
+  columns: AxisFields,
+  valueFilters: PivotValueFilter[]
+): PivotResult {
+  if (index.cells.size === 0) {
+    return createEmptyResult(measures, rows, columns);
+  }
+
+  // Empty periods would undo top/bottom and condition filters, so filtered fields are not filled
+  const valueFiltered = new Set(valueFilters.map(filter => filter.field));
+  fillPeriodGaps(index.rowRoot, rows.groups, index.orders, valueFiltered);
+  fillPeriodGaps(index.columnRoot, columns.groups, index.orders, valueFiltered);
+
+  const rowTree = sortHeaders(index.rowRoot.node.children, rows.groups, index.orders, (node, spec) =>
+    readRawValue(rawCells, node.key, spec.crossKey ?? '', spec.measure ?? 0)
+  );
+  const columnTree = sortHeaders(index.columnRoot.node.children, columns.groups, index.orders, (node, spec) =>
+    readRawValue(rawCells, spec.crossKey ?? '', node.key, spec.measure ?? 0)
+  );
+
+  // Without grouping fields an axis collapses to a single total entry
+  const rowLeaves = rows.groups.length > 0 ? collectLeaves(rowTree) : [index.rowRoot.node];
+  const columnLeaves = columns.groups.length > 0 ? collectLeaves(columnTree) : [index.columnRoot.node];
+
+  const cells = applyShowValuesAs(rawCells, measures, {
+    rows: rows.names,
+    columns: columns.names,
+    rowTree,
+    columnTree
+  });
+
+  // Leaf grid read straight out of the index instead of re-scanning the data
+  const pivotData: number[][] = rowLeaves.map(rowLeaf =>
+    columnLeaves.map(columnLeaf => {
+      const cell = cells[getCellKey(rowLeaf.key, columnLeaf.key)];
+      return cell ? cell[0] : 0;
+    })
+  );
+
   return {
     data: pivotData,
-    rowHeaders,
-    columnHeaders
+    rowHeaders: rowLeaves.map(leaf => leaf.path.join(' - ')),
+    columnHeaders: columnLeaves.map(leaf => leaf.path.join(' - ')),
+    rowFields: rows.names,
+    columnFields: columns.names,
+    rowKeys: rowLeaves.map(leaf => leaf.key),
+    columnKeys: columnLeaves.map(leaf => leaf.key),
+    rowTree,
+    columnTree,
+    measures,
+    cells,
+    members
+  };
+}
+
+function createEmptyResult(measures: PivotMeasure[], rows: AxisFields, columns: AxisFields): PivotResult {
+  return {
+    data: [],
+    rowHeaders: [],
+    columnHeaders: [],
+    rowFields: rows.names,
+    columnFields: columns.names,
+    rowKeys: [],
+    columnKeys: [],
+    rowTree: [],
+    columnTree: [],
+    measures,
+    cells: {},
+    members: {}
+  };
+}
+
+// Items with the calculated fields added; the input items are left untouched
+export function applyCalculatedFields(data: PivotData[], calculatedFields: PivotCalculatedField[]): PivotData[] {
+  if (calculatedFields.length === 0) return data;
+  return data.map(compileCalculatedFields(data, calculatedFields));
+}
+
+// Adds the calculated fields to one item; expressions are parsed once and checked against `data`
+function compileCalculatedFields(
+  data: PivotData[],
+  calculatedFields: PivotCalculatedField[]
+): (item: PivotData, position: number) => PivotData {
+  if (calculatedFields.length === 0) return item => item;
+
+  const known = collectFieldNames(data);
+  const compiled = calculatedFields.map(({ name, expression }) => {
+    const parsed = parseFieldExpression(`Calculated field "${name}"`, expression, {
+      findAggregation: findAggregatorName
+    });
+    checkFieldNames(`Calculated field "${name}"`, parsed.fields, known, data);
+    known.add(name);
+    return { name, parsed };
+  });
+
+  return (item, position) => {
+    const row: PivotData = { ...item };
+    for (const { name, parsed } of compiled) {
+      try {
+        row[name] = parsed.evaluate({ field: field => row[field] });
+      } catch (error) {
+        throw new PivotExpressionError(
+          `Calculated field "${name}" on item ${position + 1}: ${(error as Error).message}`
+        );
+      }
+    }
+    return row;
   };
 }
 
-function getUniqueValues(data: PivotData[], fields: string[]): string[] {
-  const uniqueValues = new Set<string>();
-  
-  data.forEach(item => {
-    const value = fields.map(field => item[field]).join(' - ');
-    uniqueValues.add(value);
+export function applyFilters(data: PivotData[], filters: PivotFilter[]): PivotData[] {
+  if (filters.length === 0) return data;
+  return data.filter(item => filters.every(filter => matchesFilter(item, filter)));
+}
+
+// Indices of the items that pass every filter
+function filterPositions(data: PivotData[], filters: PivotFilter[]): number[] {
+  const positions: number[] = [];
+  data.forEach((item, position) => {
+    if (filters.every(filter => matchesFilter(item, filter))) positions.push(position);
+  });
+  return positions;
+}
+
+export function matchesFilter(item: PivotData, filter: PivotFilter): boolean {
+  const value = item[filter.field];
+  let matches: boolean;
+
+  switch (filter.type) {
+    case 'equals':
+      matches = formatGroupValue(value) === formatGroupValue(filter.value);
+      break;
+    case 'in':
+      matches = filter.values.some(candidate => formatGroupValue(candidate) === formatGroupValue(value));
+      break;
+    case 'contains': {
+      const text = formatGroupValue(value);
+      matches = filter.caseSensitive
+        ? text.includes(filter.text)
+        : text.toLowerCase().includes(filter.text.toLowerCase());
+      break;
+    }
+    case 'range': {
+      const number = toNumber(value);
+      matches = number !== null &&
+        (filter.min === undefined || number >= filter.min) &&
+        (filter.max === undefined || number <= filter.max);
+      break;
+    }
+    case 'dateRange': {
+      const date = toDate(value);
+      const from = filter.from !== undefined ? toDate(filter.from) : null;
+      const to = filter.to !== undefined ? toDate(filter.to) : null;
+      const end = to === null ? null : isDateOnly(filter.to) ? to.getTime() + DAY_MS - 1 : to.getTime();
+      matches = date !== null &&
+        (from === null || date.getTime() >= from.getTime()) &&
+        (end === null || date.getTime() <= end);
+      break;
+    }
+    case 'empty':
+      matches = isEmptyValue(value);
+      break;
+  }
+
+  return filter.exclude ? !matches : matches;
+}
+
+function findExcludedGroups(
+  index: GroupIndex,
+  rows: string[],
+  columns: string[],
+  valueFilters: PivotValueFilter[]
+): Record<PivotAxis, Set<string>> {
+  const excluded: Record<PivotAxis, Set<string>> = { rows: new Set(), columns: new Set() };
+
+  for (const filter of valueFilters) {
+    // Filters on fields that are not currently on an axis have nothing to act on
+    const axis: PivotAxis | null = rows.includes(filter.field)
+      ? 'rows'
+      : columns.includes(filter.field) ? 'columns' : null;
+    if (!axis) continue;
+
+    const level = (axis === 'rows' ? rows : columns).indexOf(filter.field);
+    const tree = axis === 'rows' ? index.rowRoot.node.children : index.columnRoot.node.children;
+    const measure = filter.measure ?? 0;
+    const totalOf = (node: PivotHeaderNode) => axis === 'rows'
+      ? readIndexedValue(index, node.key, '', measure)
+      : readIndexedValue(index, '', node.key, measure);
+
+    for (const siblings of getSiblingGroups(tree, level)) {
+      const scored = siblings.map(node => ({ node, total: totalOf(node) }));
+      let kept: Set<PivotHeaderNode>;
+
+      if (filter.type === 'condition') {
+        kept = new Set(
+          scored.filter(entry => compareValues(entry.total, filter.operator, filter.value)).map(entry => entry.node)
+        );
+      } else {
+        const direction = filter.type === 'top' ? -1 : 1;
+        kept = new Set(
+          [...scored]
+            .sort((a, b) => direction * (a.total - b.total))
+            .slice(0, Math.max(filter.count, 0))
+            .map(entry => entry.node)
+        );
+      }
+
+      siblings.forEach(node => {
+        if (!kept.has(node)) excluded[axis].add(node.key);
+      });
+    }
+  }
+
+  return excluded;
+}
+
+// Lists of nodes at `level` that share a parent
+function getSiblingGroups(tree: PivotHeaderNode[], level: number): PivotHeaderNode[][] {
+  if (level === 0) return [tree];
+  return tree.flatMap(node => getSiblingGroups(node.children, level - 1));
+}
+
+export function compareValues(value: number, operator: PivotComparison, target: number): boolean {
+  switch (operator) {
+    case '>': return value > target;
+    case '>=': return value >= target;
+    case '<': return value < target;
+    case '<=': return value <= target;
+    case '=': return value === target;
+    case '!=': return value !== target;
+  }
+}
+
+interface AxisTrees {
+  rows: string[];
+  columns: string[];
+  rowTree: PivotHeaderNode[];
+  columnTree: PivotHeaderNode[];
+}
+
+interface AxisContext {
+  fields: Record<PivotAxis, string[]>;
+  positions: Record<PivotAxis, Map<string, AxisPosition>>;
+}
+
+type CellReader = (rowKey: string, columnKey: string) => number;
+
+// Running totals and ascending values of one sibling list with the other axis fixed, worked out once
+// and shared by every cell in the list
+interface SiblingRun {
+  totals: number[];
+  sorted: number[];
+}
+
+// Runs by sibling list, then by the key on the fixed axis
+type SiblingRuns = Map<PivotHeaderNode[], Map<string, SiblingRun>>;
+
+// Rewrites every row × column pair for measures with a display transformation
+function applyShowValuesAs(
+  rawCells: Record<string, number[]>,
+  measures: PivotMeasure[],
+  trees: AxisTrees
+): Record<string, number[]> {
+  if (!measures.some(measure => measure.showAs)) return rawCells;
+
+  const context: AxisContext = {
+    fields: { rows: trees.rows, columns: trees.columns },
+    positions: { rows: indexAxis(trees.rowTree), columns: indexAxis(trees.columnTree) }
+  };
+  const rowKeys = ['', ...context.positions.rows.keys()];
+  const columnKeys = ['', ...context.positions.columns.keys()];
+  const readers: CellReader[] = measures.map((_, i) => (rowKey, columnKey) => {
+    const cell = rawCells[getCellKey(rowKey, columnKey)];
+    return cell ? cell[i] : 0;
   });
-  
-  return Array.from(uniqueValues).sort();
+
+  const runs: SiblingRuns[] = measures.map(() => new Map());
+
+  const cells: Record<string, number[]> = {};
+  for (const rowKey of rowKeys) {
+    for (const columnKey of columnKeys) {
+      const cellKey = getCellKey(rowKey, columnKey);
+      cells[cellKey] = measures.map((measure, i) =>
+        measure.showAs
+          ? showValueAs(measure.showAs, rowKey, columnKey, readers[i], context, runs[i])
+          : readers[i](rowKey, columnKey)
+      );
+    }
+  }
+
+  return cells;
+}
+
+function showValueAs(
+  showAs: PivotShowValuesAs,
+  rowKey: string,
+  columnKey: string,
+  read: CellReader,
+  context: AxisContext,
+  runs: SiblingRuns
+): number {
+  const value = read(rowKey, columnKey);
+
+  if (showAs.type === 'percentOfRow') return safeDivide(value, read(rowKey, ''));
+  if (showAs.type === 'percentOfColumn') return safeDivide(value, read('', columnKey));
+  if (showAs.type === 'percentOfGrandTotal') return safeDivide(value, read('', ''));
+
+  // The remaining transformations walk along one axis while the other stays fixed
+  const { axis } = showAs;
+  const positions = context.positions[axis];
+  const position = positions.get(axis === 'rows' ? rowKey : columnKey);
+  const readAlong = (key: string) => (axis === 'rows' ? read(key, columnKey) : read(rowKey, key));
+  const getRun = (siblings: PivotHeaderNode[]) => {
+    const fixedKey = axis === 'rows' ? columnKey : rowKey;
+    let byKey = runs.get(siblings);
+    if (!byKey) runs.set(siblings, byKey = new Map());
+    let run = byKey.get(fixedKey);
+    if (!run) {
+      const values = siblings.map(sibling => readAlong(sibling.key));
+      const totals: number[] = [];
+      values.reduce((sum, next, index) => (totals[index] = sum + next), 0);
+      run = { totals, sorted: values.filter(next => !Number.isNaN(next)).sort((a, b) => a - b) };
+      byKey.set(fixedKey, run);
+    }
+    return run;
+  };
+
+  switch (showAs.type) {
+    case 'runningTotal':
+      if (!position) return value;
+      return getRun(position.siblings).totals[position.index];
+
+    case 'differenceFrom': {
+      const fields = context.fields[axis];
+      const level = showAs.field ? fields.indexOf(showAs.field) : fields.length - 1;
+      if (!position || level < 0 || position.node.depth < level) return NaN;
+
+      const basePath = [...position.node.path];
+      basePath[level] = showAs.baseItem;
+      const baseKey = getGroupKey(basePath);
+      if (baseKey === position.node.key || !positions.has(baseKey)) return NaN;
+
+      const base = readAlong(baseKey);
+      return showAs.percent ? safeDivide(value - base, base) : value - base;
+    }
+
+    case 'rank': {
+      if (!position) return NaN;
+      // Blank cells stay blank rather than tie with the top value
+      if (Number.isNaN(value)) return NaN;
+      // Ties share the best rank: count the siblings strictly ahead
+      const { sorted } = getRun(position.siblings);
+      return showAs.order === 'asc'
+        ? 1 + countBelow(sorted, value, false)
+        : 1 + sorted.length - countBelow(sorted, value, true);
+    }
+  }
 }
 
-function matchesGroup(item: PivotData, fields: string[], groupValue: string): boolean {
-  const itemValue = fields.map(field => item[field]).join(' - ');
-  return itemValue === groupValue;
+function indexAxis(tree: PivotHeaderNode[]): Map<string, AxisPosition> {
+  const positions = new Map<string, AxisPosition>();
+  const visit = (siblings: PivotHeaderNode[]) => {
+    siblings.forEach((node, index) => {
+      positions.set(node.key, { node, siblings, index });
+      visit(node.children);
+    });
+  };
+  visit(tree);
+  return positions;
+}
+
+// Values in ascending `sorted` below `value`, or up to and including it when `inclusive`
+function countBelow(sorted: number[], value: number, inclusive: boolean): number {
+  let low = 0;
+  let high = sorted.length;
+  while (low < high) {
+    const middle = (low + high) >>> 1;
+    if (sorted[middle] < value || (inclusive && sorted[middle] === value)) low = middle + 1;
+    else high = middle;
+  }
+  return low;
+}
+
+function safeDivide(numerator: number, denominator: number): number {
+  return denominator === 0 ? NaN : numerator / denominator;
 }
 
-function aggregateValues(
-  data: PivotData[], 
-  valueFields: string[], 
-  aggregation: string
+// Quantile bins become fixed edges computed from the items being pivoted
+function resolveAxisFields(fields: PivotField[], data: PivotData[], positions: number[]): AxisFields {
+  return {
+    groups: fields.map(field => {
+      const group = normalizeField(field);
+      if (!group.bins || group.bins.type !== 'quantile') return group;
+      const values = positions
+        .map(position => toNumber(data[position][group.field]))
+        .filter((value): value is number => value !== null);
+      return { ...group, bins: { type: 'edges', edges: getQuantileEdges(values, group.bins.count) } };
+    }),
+    names: fields.map(getFieldName)
+  };
+}
+
+// Raw aggregate straight from the index, before any display transformation
+function readIndexedValue(
+  index: GroupIndex,
+  rowKey: string,
+  columnKey: string,
+  measure: number
 ): number {
-  if (data.length === 0) return 0;
-  
-  const values = data.flatMap(item => 
-    valueFields.map(field => parseFloat(item[field]) || 0)
+  const accumulators = index.cells.get(getCellKey(rowKey, columnKey));
+  return accumulators && accumulators[measure] ? accumulators[measure].result() : 0;
+}
+
+function readRawValue(rawCells: Record<string, number[]>, rowKey: string, columnKey: string, measure: number): number {
+  const cell = rawCells[getCellKey(rowKey, columnKey)];
+  return cell && cell[measure] !== undefined ? cell[measure] : 0;
+}
+
+// Buckets the items at `positions` in `data`; cells remember those positions for drill-down
+function buildGroupIndex(
+  data: PivotData[],
+  positions: number[],
+  rows: PivotGroupField[],
+  columns: PivotGroupField[],
+  measures: PivotMeasure[],
+  factories: PivotAggregatorFactory[]
+): GroupIndex {
+  const index: GroupIndex = {
+    cells: new Map(),
+    members: new Map(),
+    orders: new Map(),
+    rowRoot: createHeaderBuilder('', '', -1, []),
+    columnRoot: createHeaderBuilder('', '', -1, [])
+  };
+
+  for (const position of positions) {
+    const item = data[position];
+    const rowKeys = insertPath(index.rowRoot, item, rows, index.orders);
+    const columnKeys = insertPath(index.columnRoot, item, columns, index.orders);
+    const itemValues = measures.map(measure => (measure.field ? item[measure.field] : undefined));
+
+    // Feed the item into every level of the hierarchy so subtotals come for free
+    for (const rowKey of rowKeys) {
+      for (const columnKey of columnKeys) {
+        const cellKey = getCellKey(rowKey, columnKey);
+        let accumulators = index.cells.get(cellKey);
+        let members = index.members.get(cellKey);
+        if (!accumulators || !members) {
+          accumulators = factories.map((factory, i) => factory(measures[i]));
+          members = [];
+          index.cells.set(cellKey, accumulators);
+          index.members.set(cellKey, members);
+        }
+        members.push(position);
+        for (let i = 0; i < itemValues.length; i++) {
+          accumulators[i].add(itemValues[i], item);
+        }
+      }
+    }
+  }
+
+  return index;
+}
+
+function createHeaderBuilder(
+  label: string,
+  field: string,
+  depth: number,
+  path: string[],
+  parent?: HeaderBuilder
+): HeaderBuilder {
+  const builder: HeaderBuilder = {
+    node: { key: getGroupKey(path), label, field, depth, path, children: [] },
+    children: new Map()
+  };
+  // Children are kept in arrival order here and sorted once the index is complete
+  if (parent) {
+    parent.children.set(label, builder);
+    parent.node.children.push(builder.node);
+  }
+  return builder;
+}
+
+function cloneHeaderBuilder(builder: HeaderBuilder): HeaderBuilder {
+  const clone: HeaderBuilder = { node: { ...builder.node, children: [] }, children: new Map() };
+  builder.children.forEach((child, label) => {
+    const childClone = cloneHeaderBuilder(child);
+    clone.children.set(label, childClone);
+    clone.node.children.push(childClone.node);
+  });
+  return clone;
+}
+
+// Adds the item's path to the header tree and returns the group key of every prefix
+function insertPath(
+  root: HeaderBuilder,
+  item: PivotData,
+  fields: PivotGroupField[],
+  orders: Map<string, number>
+): string[] {
+  const keys = [root.node.key];
+  let current = root;
+
+  fields.forEach((group, depth) => {
+    const { label, order } = getGroupBucket(item, group);
+    let child = current.children.get(label);
+    if (!child) {
+      child = createHeaderBuilder(label, getFieldName(group), depth, [...current.node.path, label], current);
+      if (order !== undefined) orders.set(child.node.key, order);
+    }
+    keys.push(child.node.key);
+    current = child;
+  });
+
+  return keys;
+}
+
+// Removes headers no item falls under any more, e.g. after live updates; period gaps are filled afresh
+function pruneEmptyHeaders(
+  parent: HeaderBuilder,
+  hasItems: (key: string) => boolean,
+  orders: Map<string, number>
+): void {
+  parent.children.forEach((child, label) => {
+    if (hasItems(child.node.key)) {
+      pruneEmptyHeaders(child, hasItems, orders);
+      return;
+    }
+    parent.children.delete(label);
+    parent.node.children.splice(parent.node.children.indexOf(child.node), 1);
+    orders.delete(child.node.key);
+  });
+}
+
+// Group keys of every non-empty prefix of the item's path along `fields`
+function getPathKeys(item: PivotData, fields: PivotGroupField[]): string[] {
+  const path: string[] = [];
+  return fields.map(group => {
+    path.push(getGroupLabel(item, group));
+    return getGroupKey(path);
+  });
+}
+
+function getGroupLabel(item: PivotData, group: PivotGroupField): string {
+  return getGroupBucket(item, group).label;
+}
+
+// Header an item falls under for one grouping field; `order` is set for date periods and bins
+function getGroupBucket(item: PivotData, group: PivotGroupField): { label: string; order?: number } {
+  const value = item[group.field];
+
+  if (group.bins) {
+    const number = toNumber(value);
+    return number === null ? { label: '' } : getBin(number, group.bins);
+  }
+
+  if (group.dateGrouping) {
+    // Timelines and week columns are grouped by their start date
+    const date = toDate(isRange(value) ? value.from : value);
+    if (!date) return { label: '' };
+    const grouping = normalizeDateGrouping(group.dateGrouping);
+    const order = getDatePeriod(date, grouping);
+    return { label: formatDatePeriod(order, grouping), order };
+  }
+
+  return { label: formatGroupValue(value) };
+}
+
+// Adds the periods missing between the first and last one under each parent, so trends have no gaps
+function fillPeriodGaps(
+  root: HeaderBuilder,
+  fields: PivotGroupField[],
+  orders: Map<string, number>,
+  skipFields: Set<string>
+): void {
+  const visit = (parent: HeaderBuilder, depth: number) => {
+    const group = fields[depth];
+    if (!group) return;
+
+    const children = Array.from(parent.children.values());
+    const grouping = group.dateGrouping ? normalizeDateGrouping(group.dateGrouping) : null;
+    if (grouping && grouping.fillGaps !== false && !skipFields.has(getFieldName(group))) {
+      const present = children
+        .map(child => orders.get(child.node.key))
+        .filter((order): order is number => order !== undefined);
+      const seen = new Set(present);
+
+      if (present.length > 1) {
+        const last = Math.max(...present);
+        for (let order = Math.min(...present); order < last; order++) {
+          if (seen.has(order)) continue;
+          const label = formatDatePeriod(order, grouping);
+          const gap = createHeaderBuilder(label, getFieldName(group), depth, [...parent.node.path, label], parent);
+          orders.set(gap.node.key, order);
+        }
+      }
+    }
+
+    children.forEach(child => visit(child, depth + 1));
+  };
+
+  visit(root, 0);
+}
+
+// Sorts every level of the tree in place with that level's sort options
+function sortHeaders(
+  nodes: PivotHeaderNode[],
+  fields: PivotGroupField[],
+  orders: Map<string, number>,
+  valueOf: (node: PivotHeaderNode, spec: PivotSortSpec) => number
+): PivotHeaderNode[] {
+  if (nodes.length === 0) return nodes;
+
+  const spec = fields[nodes[0].depth].sort || {};
+  const direction = spec.order === 'desc' ? -1 : 1;
+  const customRanks = new Map((spec.customOrder || []).map((label, rank) => [label, rank]));
+  const values = spec.by === 'value'
+    ? new Map(nodes.map(node => [node.key, valueOf(node, spec)]))
+    : null;
+
+  nodes.sort((a, b) => {
+    const rankA = customRanks.get(a.label);
+    const rankB = customRanks.get(b.label);
+    if (rankA !== undefined || rankB !== undefined) {
+      // Listed labels keep their custom position whatever the direction
+      if (rankA === undefined) return 1;
+      if (rankB === undefined) return -1;
+      return rankA - rankB;
+    }
+
+    let comparison: number;
+    if (values) {
+      comparison = (values.get(a.key) ?? 0) - (values.get(b.key) ?? 0);
+    } else if (spec.by === 'label') {
+      comparison = a.label < b.label ? -1 : a.label > b.label ? 1 : 0;
+    } else if (orders.has(a.key) || orders.has(b.key)) {
+      // Periods and bins in order; items without a date or number come last
+      comparison = (orders.get(a.key) ?? Infinity) - (orders.get(b.key) ?? Infinity);
+      if (Number.isNaN(comparison)) comparison = 0;
+    } else {
+      comparison = naturalCollator.compare(a.label, b.label);
+    }
+    return direction * comparison;
+  });
+
+  nodes.forEach(node => sortHeaders(node.children, fields, orders, valueOf));
+  return nodes;
+}
+
+function collectLeaves(nodes: PivotHeaderNode[]): PivotHeaderNode[] {
+  return nodes.flatMap(node =>
+    node.children.length > 0 ? collectLeaves(node.children) : [node]
   );
-  
-  switch (aggregation) {
-    case 'sum':
-      return values.reduce((sum, val) => sum + val, 0);
-    case 'count':
-      return values.length;
-    case 'avg':
-      return values.reduce((sum, val) => sum + val, 0) / values.length;
-    case 'min':
-      return Math.min(...values);
-    case 'max':
-      return Math.max(...values);
-    default:
-      return values.reduce((sum, val) => sum + val, 0);
-  }
-} 
\ No newline at end of file
+}
+
+// Field names and types seen in the first `sampleSize` items, typed by their first non-empty value
+export function inferFieldSchema(data: PivotData[], sampleSize = 200): PivotFieldSchema[] {
+  const types = new Map<string, PivotFieldType | null>();
+
+  for (const item of data.slice(0, sampleSize)) {
+    for (const name of Object.keys(item)) {
+      if (types.get(name)) continue;
+      const value = item[name];
+      types.set(name, isEmptyValue(value) ? null : getValueType(value));
+    }
+  }
+
+  return Array.from(types.entries()).map(([name, type]) => ({ name, type: type || 'text' }));
+}
+
+function getValueType(value: unknown): PivotFieldType {
+  if (typeof value === 'number') return 'number';
+  if (typeof value === 'boolean') return 'boolean';
+  if (value instanceof Date) return 'date';
+  if (Array.isArray(value)) return 'list';
+  if (isRange(value)) return 'range';
+  return 'text';
+}
+
+// Header label for a grouping value: dates as ISO days, lists comma-separated, ranges with a dash
+export function formatGroupValue(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  if (value instanceof Date) return formatDateLabel(value);
+  if (Array.isArray(value)) return value.map(formatGroupValue).join(', ');
+  if (isRange(value)) {
+    return `${value.from ? formatDateLabel(value.from) : ''} – ${value.to ? formatDateLabel(value.to) : ''}`;
+  }
+  return String(value);
+}
+
+function formatDateLabel(date: Date): string {
+  if (Number.isNaN(date.getTime())) return '';
+  const iso = date.toISOString();
+  // monday dates without a time arrive as UTC midnight
+  return iso.endsWith('T00:00:00.000Z') ? iso.slice(0, 10) : `${iso.slice(0, 10)} ${iso.slice(11, 16)}`;
+}
+
+// Timeline and week values
+export function isRange(value: unknown): value is PivotRange {
+  return typeof value === 'object' && value !== null && 'from' in value && 'to' in value;
+}
+
+function isEmptyValue(value: unknown): boolean {
+  return value === null || value === undefined || value === '' ||
+    (Array.isArray(value) && value.length === 0) ||
+    (isRange(value) && value.from === null && value.to === null);
+}
+
+function toDate(value: unknown): Date | null {
+  if (value instanceof Date) return Number.isNaN(value.getTime()) ? null : value;
+  if (typeof value !== 'string' && typeof value !== 'number') return null;
+  if (value === '') return null;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+// "2024-03-31": parsed as UTC midnight, like monday dates without a time
+function isDateOnly(value: unknown): boolean {
+  return typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value);
+}
+
+// Numeric view of a cell value; blanks and text that is not a number are skipped
+function toNumber(value: unknown): number | null {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  if (isEmptyValue(value) || typeof value === 'object') return null;
+  const parsed = parseFloat(String(value));
+  return Number.isNaN(parsed) ? null : parsed;
+}
+
+// Builds an accumulator that keeps every numeric value and resolves them at the end
+function numericCollector(resolve: (values: number[]) => number): PivotAggregatorFactory {
+  return () => {
+    const values: number[] = [];
+    return {
+      add(value) {
+        const number = toNumber(value);
+        if (number !== null) values.push(number);
+      },
+      result: () => (values.length === 0 ? 0 : resolve(values))
+    };
+  };
+}
+
+// Linear interpolation between closest ranks, matching spreadsheet PERCENTILE.INC
+function percentileOf(values: number[], percentile: number): number {
+  const sorted = Float64Array.from(values).sort();
+  const rank = (Math.min(Math.max(percentile, 0), 100) / 100) * (sorted.length - 1);
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+}
+
+// Welford's online algorithm; resolves to the sample variance or its square root
+function varianceAggregator(squareRoot: boolean): PivotAggregatorFactory {
+  return () => {
+    let count = 0;
+    let mean = 0;
+    let squares = 0;
+    return {
+      add(value) {
+        const number = toNumber(value);
+        if (number === null) return;
+        count++;
+        const delta = number - mean;
+        mean += delta / count;
+        squares += delta * (number - mean);
+      },
+      // Welford's update run backwards
+      remove(value) {
+        const number = toNumber(value);
+        if (number === null) return;
+        count--;
+        if (count === 0) {
+          mean = 0;
+          squares = 0;
+          return;
+        }
+        const delta = number - mean;
+        mean -= delta / count;
+        squares -= delta * (number - mean);
+      },
+      result() {
+        if (count < 2) return 0;
+        const variance = squares / (count - 1);
+        return squareRoot ? Math.sqrt(variance) : variance;
+      }
+    };
+  };
+}
+
+function extremeAggregator(pickHigher: boolean): PivotAggregatorFactory {
+  return () => {
+    let extreme: number | null = null;
+    return {
+      add(value) {
+        const number = toNumber(value);
+        if (number === null) return;
+        if (extreme === null || (pickHigher ? number > extreme : number < extreme)) {
+          extreme = number;
+        }
+      },
+      result: () => extreme ?? 0
+    };
+  };
+}
+
+function positionalAggregator(keepLatest: boolean): PivotAggregatorFactory {
+  return () => {
+    let picked: number | null = null;
+    return {
+      add(value) {
+        const number = toNumber(value);
+        if (number !== null && (keepLatest || picked === null)) picked = number;
+      },
+      result: () => picked ?? 0
+    };
+  };
+}
+
+registerAggregator('sum', () => {
+  let sum = 0;
+  return {
+    add(value) {
+      sum += toNumber(value) ?? 0;
+    },
+    remove(value) {
+      sum -= toNumber(value) ?? 0;
+    },
+    result: () => sum
+  };
+}, 'Sum');
+
+registerAggregator('count', () => {
+  let count = 0;
+  return {
+    add() {
+      count++;
+    },
+    remove() {
+      count--;
+    },
+    result: () => count
+  };
+}, 'Count');
+
+registerAggregator('countNonEmpty', () => {
+  let count = 0;
+  return {
+    add(value) {
+      if (!isEmptyValue(value)) count++;
+    },
+    remove(value) {
+      if (!isEmptyValue(value)) count--;
+    },
+    result: () => count
+  };
+}, 'Count (non-empty)');
+
+registerAggregator('countDistinct', () => {
+  // Keyed like group labels, so timelines, dates and lists count by what they hold
+  const seen = new Set<string>();
+  return {
+    add(value) {
+      if (!isEmptyValue(value)) seen.add(formatGroupValue(value));
+    },
+    result: () => seen.size
+  };
+}, 'Distinct count');
+
+registerAggregator('avg', () => {
+  let sum = 0;
+  let count = 0;
+  return {
+    add(value) {
+      const number = toNumber(value);
+      if (number === null) return;
+      sum += number;
+      count++;
+    },
+    remove(value) {
+      const number = toNumber(value);
+      if (number === null) return;
+      sum -= number;
+      count--;
+    },
+    result: () => (count === 0 ? 0 : sum / count)
+  };
+}, 'Average');
+
+registerAggregator('min', extremeAggregator(false), 'Min');
+registerAggregator('max', extremeAggregator(true), 'Max');
+registerAggregator('median', numericCollector(values => percentileOf(values, 50)), 'Median');
+registerAggregator('p90', numericCollector(values => percentileOf(values, 90)), 'P90');
+registerAggregator(
+  'percentile',
+  measure => numericCollector(values => percentileOf(values, measure.percentile ?? 50))(measure),
+  'Percentile'
+);
+registerAggregator('stdev', varianceAggregator(true), 'Std. deviation');
+registerAggregator('variance', varianceAggregator(false), 'Variance');
+registerAggregator('first', positionalAggregator(false), 'First');
+registerAggregator('last', positionalAggregator(true), 'Last');
+
+const builtInAggregators = new Map(aggregators);
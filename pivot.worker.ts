@@ -0,0 +1,9 @@
+import { PivotComputeRequest, createPivotComputeHost } from './pivotComputeHost';
+
+// Entry point of the worker started by createPivotComputeClient. Apps with their own aggregators
+// start a module that registers them and then imports this one, passed as its `createWorker` option.
+const scope = self as unknown as Worker;
+
+const handleRequest = createPivotComputeHost(response => scope.postMessage(response));
+
+scope.onmessage = (event: MessageEvent<PivotComputeRequest>) => handleRequest(event.data);
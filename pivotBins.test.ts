@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { getBin, getQuantileEdges } from './pivotBins';
+import { createPivotTable } from './pivot';
+
+describe('getBin', () => {
+  it('counts equal-width ranges from the start, lower bound included', () => {
+    expect(getBin(0, { type: 'width', width: 10 })).toEqual({ label: '0–10', order: 0 });
+    expect(getBin(10, { type: 'width', width: 10 })).toEqual({ label: '10–20', order: 1 });
+    expect(getBin(-0.5, { type: 'width', width: 10 })).toEqual({ label: '-10–0', order: -1 });
+    expect(getBin(12, { type: 'width', width: 10, start: 5 })).toEqual({ label: '5–15', order: 0 });
+    expect(getBin(15000, { type: 'width', width: 10000 }).label).toBe('10k–20k');
+    expect(() => getBin(1, { type: 'width', width: 0 })).toThrow('Bin width must be a positive number');
+  });
+
+  it('keeps the last edge in the last range and opens bins outside the edges', () => {
+    const binning = { type: 'edges' as const, edges: [100, 0, 50] };
+    expect(getBin(-1, binning)).toEqual({ label: '< 0', order: -1 });
+    expect(getBin(0, binning)).toEqual({ label: '0–50', order: 0 });
+    expect(getBin(50, binning)).toEqual({ label: '50–100', order: 1 });
+    expect(getBin(100, binning)).toEqual({ label: '50–100', order: 1 });
+    expect(getBin(100.5, binning)).toEqual({ label: '> 100', order: 2 });
+    expect(getBin(3, { type: 'edges', edges: [5] })).toEqual({ label: '< 5', order: -1 });
+    expect(getBin(5, { type: 'edges', edges: [5] })).toEqual({ label: '≥ 5', order: 0 });
+  });
+
+  it('adds decimals until both bounds read differently', () => {
+    expect(getBin(1_500_000, { type: 'edges', edges: [1_495_000, 1_505_000] }).label).toBe('1.495M–1.505M');
+  });
+});
+
+describe('getQuantileEdges', () => {
+  it('splits values into bins of about the same size without repeating edges', () => {
+    expect(getQuantileEdges([1, 2, 3, 4, 5, 6, 7, 8, 9], 4)).toEqual([1, 3, 5, 7, 9]);
+    expect(getQuantileEdges([1, 1, 1, 1, 2], 4)).toEqual([1, 2]);
+    expect(getQuantileEdges([7, 7], 3)).toEqual([7, 7]);
+    expect(getQuantileEdges([], 3)).toEqual([]);
+  });
+});
+
+describe('numeric bins in pivots', () => {
+  it('orders bins numerically and puts items without a number last', () => {
+    const data = [{ budget: 250 }, { budget: 9 }, { budget: 1200 }, { budget: 'n/a' }, { budget: 120 }];
+    const result = createPivotTable(data, {
+      rows: [{ field: 'budget', bins: { type: 'edges', edges: [10, 100, 1000] } }],
+      columns: [],
+      values: ['budget'],
+      aggregation: 'count'
+    });
+    expect(result.rowTree.map(node => node.label)).toEqual(['< 10', '100–1k', '> 1k', '']);
+    expect(result.data.map(row => row[0])).toEqual([1, 2, 1, 1]);
+  });
+
+  it('resolves quantile bins from the items being pivoted', () => {
+    const data = Array.from({ length: 8 }, (_, index) => ({ hours: index + 1 }));
+    const result = createPivotTable(data, {
+      rows: [{ field: 'hours', bins: { type: 'quantile', count: 2 } }],
+      columns: [],
+      values: ['hours'],
+      aggregation: 'count'
+    });
+    expect(result.rowTree.map(node => node.label)).toEqual(['1–4', '4–8']);
+    expect(result.data.map(row => row[0])).toEqual([3, 5]);
+  });
+});
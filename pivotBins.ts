@@ -0,0 +1,72 @@
+import type { PivotBinning } from './pivot';
+
+export interface PivotBin {
+  label: string;
+  // Bins sort by this rather than by label
+  order: number;
+}
+
+const COMPACT_UNITS: [number, string][] = [[1e12, 'T'], [1e9, 'B'], [1e6, 'M'], [1e3, 'k']];
+
+// Bin a number falls into. Ranges include their lower bound; the last explicit range also
+// includes its upper bound, and values outside the edges get open-ended bins.
+export function getBin(value: number, binning: PivotBinning): PivotBin {
+  if (binning.type === 'width') {
+    if (!(binning.width > 0)) {
+      throw new Error(`Bin width must be a positive number, got ${binning.width}`);
+    }
+    const start = binning.start ?? 0;
+    const order = Math.floor((value - start) / binning.width);
+    const from = start + order * binning.width;
+    return { label: formatBinRange(from, from + binning.width), order };
+  }
+
+  if (binning.type === 'quantile') {
+    throw new Error('Quantile bins must be resolved to edges before bucketing');
+  }
+
+  const edges = [...binning.edges].sort((a, b) => a - b);
+  if (edges.length === 0) {
+    throw new Error('Edge bins need at least one edge');
+  }
+
+  const last = edges.length - 1;
+  if (value < edges[0]) return { label: `< ${formatBinNumber(edges[0])}`, order: -1 };
+  if (last === 0) return { label: `≥ ${formatBinNumber(edges[0])}`, order: 0 };
+  if (value > edges[last]) return { label: `> ${formatBinNumber(edges[last])}`, order: last };
+
+  let order = 0;
+  while (order < last - 1 && value >= edges[order + 1]) order++;
+  return { label: formatBinRange(edges[order], edges[order + 1]), order };
+}
+
+// Edges that split the values into `count` bins of about the same size
+export function getQuantileEdges(values: number[], count: number): number[] {
+  if (values.length === 0) return [];
+  const sorted = [...values].sort((a, b) => a - b);
+  const bins = Math.max(1, Math.floor(count));
+  const edges: number[] = [];
+
+  for (let i = 0; i <= bins; i++) {
+    const edge = sorted[Math.min(sorted.length - 1, Math.floor((i / bins) * (sorted.length - 1)))];
+    // Repeated values would produce empty bins
+    if (edges[edges.length - 1] !== edge) edges.push(edge);
+  }
+  return edges.length === 1 ? [edges[0], edges[0]] : edges;
+}
+
+// Adds decimals until both bounds read differently, e.g. "1.495M–1.505M" rather than "1.5M–1.5M"
+function formatBinRange(from: number, to: number): string {
+  let digits = 2;
+  while (digits < 6 && from !== to && formatBinNumber(from, digits) === formatBinNumber(to, digits)) digits++;
+  return `${formatBinNumber(from, digits)}–${formatBinNumber(to, digits)}`;
+}
+
+// Compact bound such as 950, 12.5, 10k or 1.5M
+function formatBinNumber(value: number, digits = 2): string {
+  const size = Math.abs(value);
+  for (const [unit, suffix] of COMPACT_UNITS) {
+    if (size >= unit) return `${Number((value / unit).toFixed(digits))}${suffix}`;
+  }
+  return String(Number(value.toFixed(digits)));
+}
@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest';
+import { createPivotTable, PivotData } from './pivot';
+import { getNiceTicks, getPivotChartData, getPivotChartRings } from './pivotChartData';
+
+const data: PivotData[] = [
+  { region: 'East', team: 'Web', status: 'Done', hours: 2 },
+  { region: 'East', team: 'Web', status: 'Open', hours: 6 },
+  { region: 'East', team: 'App', status: 'Done', hours: 4 },
+  { region: 'West', team: 'Web', status: 'Done', hours: 8 }
+];
+
+// Only groups with hours get a value; the others are blank rather than zero
+const blankWithoutHours = { aggregation: 'formula', formula: 'if(sum([hours]) > 0, sum([hours]), null)' };
+
+describe('getPivotChartData', () => {
+  it('makes leaf rows categories and leaf columns series, grouped under their outer rows', () => {
+    const result = createPivotTable(data, { rows: ['region', 'team'], columns: ['status'], values: ['hours'], aggregation: 'sum' });
+    const chart = getPivotChartData(result);
+
+    expect(chart.categories.map(category => category.path)).toEqual([['East', 'App'], ['East', 'Web'], ['West', 'Web']]);
+    expect(chart.series.map(series => [series.label, series.values])).toEqual([['Done', [4, 2, 8]], ['Open', [0, 6, 0]]]);
+    expect(chart.groups).toEqual([[
+      { label: 'East', level: 0, start: 0, end: 2 },
+      { label: 'West', level: 0, start: 2, end: 3 }
+    ]]);
+  });
+
+  it('falls back to one category or one series named after the measure', () => {
+    const result = createPivotTable(data, { rows: [], columns: [], values: ['hours'], aggregation: 'sum' });
+    const chart = getPivotChartData(result);
+    expect(chart.categories).toEqual([{ key: '', label: 'Sum of hours', path: [] }]);
+    expect(chart.series).toEqual([{ key: '', label: 'Sum of hours', values: [20] }]);
+    expect(chart.groups).toEqual([]);
+  });
+
+  it('keeps blank values as NaN', () => {
+    const result = createPivotTable(data.map(item => ({ ...item, hours: null })), {
+      rows: ['region'],
+      columns: [],
+      values: [],
+      measures: [blankWithoutHours]
+    });
+    expect(getPivotChartData(result).series[0].values).toEqual([NaN, NaN]);
+  });
+});
+
+describe('getPivotChartRings', () => {
+  it('sizes parents by their children but labels them with their own value', () => {
+    // East averages 4 over three items, while its teams average 4 and 4
+    const result = createPivotTable(data, { rows: ['region', 'team'], columns: [], values: ['hours'], aggregation: 'avg' });
+    const [regions, teams] = getPivotChartRings(result);
+
+    expect(regions.map(slice => [slice.label, slice.value, slice.start, slice.end, slice.colorIndex])).toEqual([
+      ['East', 4, 0, 0.5, 0],
+      ['West', 8, 0.5, 1, 1]
+    ]);
+    expect(teams.map(slice => [slice.path.join('/'), slice.value, slice.start, slice.end, slice.colorIndex])).toEqual([
+      ['East/App', 4, 0, 0.25, 0],
+      ['East/Web', 4, 0.25, 0.5, 0],
+      ['West/Web', 8, 0.5, 1, 1]
+    ]);
+  });
+
+  it('uses the column hierarchy without row fields and leaves out slices without a positive value', () => {
+    const withLoss = [...data, { region: 'North', team: 'Web', status: 'Done', hours: -3 }];
+    const result = createPivotTable(withLoss, { rows: [], columns: ['region'], values: ['hours'], aggregation: 'sum' });
+    expect(getPivotChartRings(result)).toEqual([[
+      { key: 'East\u001f', label: 'East', path: ['East'], value: 12, start: 0, end: 0.6, colorIndex: 0 },
+      { key: 'West\u001f', label: 'West', path: ['West'], value: 8, start: 0.6, end: 1, colorIndex: 2 }
+    ]]);
+  });
+
+  it('draws nothing when every value is blank or not positive', () => {
+    const blank = createPivotTable(data.map(item => ({ ...item, hours: null })), {
+      rows: ['region', 'team'],
+      columns: [],
+      values: [],
+      measures: [blankWithoutHours]
+    });
+    expect(getPivotChartRings(blank)).toEqual([]);
+
+    const total = createPivotTable([{ hours: 0 }], { rows: [], columns: [], values: ['hours'], aggregation: 'sum' });
+    expect(getPivotChartRings(total)).toEqual([]);
+    const positive = createPivotTable([{ hours: 5 }], { rows: [], columns: [], values: ['hours'], aggregation: 'sum' });
+    expect(getPivotChartRings(positive)).toEqual([[{ key: '', label: 'Sum of hours', path: [], value: 5, start: 0, end: 1, colorIndex: 0 }]]);
+  });
+});
+
+describe('getNiceTicks', () => {
+  it('covers the range with round steps that include zero', () => {
+    expect(getNiceTicks(-3, 17)).toEqual([-5, 0, 5, 10, 15, 20]);
+    expect(getNiceTicks(0.1, 0.3)).toEqual([0, 0.1, 0.2, 0.3]);
+    expect(getNiceTicks(120, 480)).toEqual([0, 100, 200, 300, 400, 500]);
+  });
+
+  it('still spans a range when every value is blank, zero or the same', () => {
+    expect(getNiceTicks(NaN, NaN)).toEqual([0, 0.2, 0.4, 0.6, 0.8, 1]);
+    expect(getNiceTicks(0, 0)).toEqual([0, 0.2, 0.4, 0.6, 0.8, 1]);
+    expect(getNiceTicks(5, 5)).toEqual([0, 1, 2, 3, 4, 5]);
+  });
+});
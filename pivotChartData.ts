@@ -0,0 +1,198 @@
+import { PivotHeaderNode, PivotMeasure, PivotResult, getPivotCellValue } from './pivot';
+import type { PivotTheme } from './pivotFormatting';
+
+export type PivotChartType = 'stackedBar' | 'groupedBar' | 'line' | 'area' | 'pie';
+
+// One position along the category axis: a row leaf, or the total when there are no row fields
+export interface PivotChartCategory {
+  key: string;
+  label: string;
+  path: string[];
+}
+
+// One column leaf, or the measure itself when there are no column fields; NaN marks a blank value
+export interface PivotChartSeries {
+  key: string;
+  label: string;
+  values: number[];
+}
+
+// An outer row header spanning the categories from `start` up to, not including, `end`
+export interface PivotChartGroup {
+  label: string;
+  level: number;
+  start: number;
+  end: number;
+}
+
+export interface PivotChartData {
+  measure: PivotMeasure;
+  categories: PivotChartCategory[];
+  series: PivotChartSeries[];
+  // Levels above the leaves, outermost first
+  groups: PivotChartGroup[][];
+}
+
+// A pie slice on the ring for one level of the hierarchy; angles are fractions of the full turn
+export interface PivotChartSlice {
+  key: string;
+  label: string;
+  path: string[];
+  value: number;
+  start: number;
+  end: number;
+  // Index of the top-level header the slice belongs to, so nested slices share its color
+  colorIndex: number;
+}
+
+export interface PivotChartColors {
+  background: string;
+  text: string;
+  grid: string;
+  axis: string;
+  series: string[];
+}
+
+const CHART_COLORS: Record<PivotTheme, PivotChartColors> = {
+  light: {
+    background: '#ffffff',
+    text: '#323338',
+    grid: '#e6e9ef',
+    axis: '#c3c6d4',
+    series: ['#0073ea', '#00c875', '#fdab3d', '#e2445c', '#a25ddc', '#66ccff', '#cab641', '#ff158a', '#037f4c', '#784bd1']
+  },
+  dark: {
+    background: '#181b34',
+    text: '#d5d8df',
+    grid: '#3a3d5c',
+    axis: '#5d6080',
+    series: ['#579bfc', '#33d391', '#ffcb00', '#ff7a8a', '#bb86fc', '#66ccff', '#e2d66b', '#ff5ac4', '#00c875', '#9d99ff']
+  },
+  night: {
+    background: '#111111',
+    text: '#eeeeee',
+    grid: '#333333',
+    axis: '#5c5c5c',
+    series: ['#579bfc', '#33d391', '#ffcb00', '#ff7a8a', '#bb86fc', '#66ccff', '#e2d66b', '#ff5ac4', '#00c875', '#9d99ff']
+  }
+};
+
+export function getChartColors(theme: PivotTheme): PivotChartColors {
+  return CHART_COLORS[theme];
+}
+
+export function getSeriesColor(index: number, theme: PivotTheme): string {
+  const { series } = CHART_COLORS[theme];
+  return series[index % series.length];
+}
+
+// Leaf rows become categories and leaf columns series, read for one measure
+export function getPivotChartData(result: PivotResult, measureIndex = 0): PivotChartData {
+  const measure = result.measures[measureIndex] || result.measures[0];
+  const categories: PivotChartCategory[] = result.rowFields.length > 0
+    ? collectLeaves(result.rowTree).map(node => ({ key: node.key, label: node.label, path: node.path }))
+    : [{ key: '', label: (measure && measure.label) || '', path: [] }];
+  const series = (result.columnFields.length > 0
+    ? collectLeaves(result.columnTree).map(node => ({ key: node.key, label: node.path.join(' / ') }))
+    : [{ key: '', label: (measure && measure.label) || '' }]
+  ).map(({ key, label }) => ({
+    key,
+    label,
+    values: categories.map(category => getPivotCellValue(result, category.key, key, measureIndex))
+  }));
+
+  return { measure, categories, series, groups: getCategoryGroups(categories, result.rowFields.length) };
+}
+
+// Rings of a multi-level pie, innermost first. Leaves get angles from their values, and each parent
+// spans its children, so the rings line up. Slices without a positive value are left out.
+export function getPivotChartRings(result: PivotResult, measureIndex = 0): PivotChartSlice[][] {
+  const byRows = result.rowFields.length > 0 || result.columnFields.length === 0;
+  const tree = byRows ? result.rowTree : result.columnTree;
+  const valueOf = (key: string) => {
+    const value = byRows
+      ? getPivotCellValue(result, key, '', measureIndex)
+      : getPivotCellValue(result, '', key, measureIndex);
+    return Number.isFinite(value) && value > 0 ? value : 0;
+  };
+
+  // Without fields on either axis the pie is the single grand total
+  if (tree.length === 0) {
+    const value = valueOf('');
+    return value > 0
+      ? [[{ key: '', label: result.measures[measureIndex]?.label || '', path: [], value, start: 0, end: 1, colorIndex: 0 }]]
+      : [];
+  }
+
+  const weight = (node: PivotHeaderNode): number =>
+    node.children.length > 0 ? node.children.reduce((sum, child) => sum + weight(child), 0) : valueOf(node.key);
+  const total = tree.reduce((sum, node) => sum + weight(node), 0);
+  if (total <= 0) return [];
+
+  const rings: PivotChartSlice[][] = [];
+  const place = (nodes: PivotHeaderNode[], start: number, colorIndex: number | null) => {
+    let offset = start;
+    nodes.forEach((node, index) => {
+      const share = weight(node) / total;
+      if (share <= 0) return;
+      const color = colorIndex ?? index;
+      (rings[node.depth] = rings[node.depth] || []).push({
+        key: node.key,
+        label: node.label,
+        path: node.path,
+        // Parents show their own total, which for averages and the like is not the sum of the ring above
+        value: byRows ? getPivotCellValue(result, node.key, '', measureIndex) : getPivotCellValue(result, '', node.key, measureIndex),
+        start: offset,
+        end: offset + share,
+        colorIndex: color
+      });
+      place(node.children, offset, color);
+      offset += share;
+    });
+  };
+  place(tree, 0, null);
+  return rings;
+}
+
+// About `count` evenly spaced round values covering min to max, always including zero; a NaN bound,
+// as from a series of blank values, counts as zero
+export function getNiceTicks(min: number, max: number, count = 5): number[] {
+  let low = Number.isNaN(min) ? 0 : Math.min(min, 0);
+  let high = Number.isNaN(max) ? 0 : Math.max(max, 0);
+  if (low === high) high = low + 1;
+
+  const rough = (high - low) / Math.max(count, 1);
+  const magnitude = Math.pow(10, Math.floor(Math.log10(rough)));
+  const step = [1, 2, 2.5, 5, 10].map(factor => factor * magnitude).find(candidate => candidate >= rough) || rough;
+  low = Math.floor(low / step) * step;
+  high = Math.ceil(high / step) * step;
+
+  const ticks: number[] = [];
+  for (let tick = low; tick <= high + step / 2; tick += step) {
+    // Rounded so steps like 0.1 do not print as 0.30000000000000004
+    ticks.push(Number(tick.toPrecision(12)));
+  }
+  return ticks;
+}
+
+function getCategoryGroups(categories: PivotChartCategory[], levels: number): PivotChartGroup[][] {
+  const groups: PivotChartGroup[][] = [];
+  for (let level = 0; level < levels - 1; level++) {
+    const spans: PivotChartGroup[] = [];
+    categories.forEach((category, index) => {
+      const last = spans[spans.length - 1];
+      const prefix = category.path.slice(0, level + 1).join('\u001f');
+      if (last && categories[last.start].path.slice(0, level + 1).join('\u001f') === prefix) {
+        last.end = index + 1;
+      } else {
+        spans.push({ label: category.path[level], level, start: index, end: index + 1 });
+      }
+    });
+    groups.push(spans);
+  }
+  return groups;
+}
+
+function collectLeaves(nodes: PivotHeaderNode[]): PivotHeaderNode[] {
+  return nodes.flatMap(node => (node.children.length > 0 ? collectLeaves(node.children) : [node]));
+}
@@ -0,0 +1,100 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { getPivotCellValue, hasCustomAggregators, PivotConfig, registerAggregator } from './pivot';
+import { PivotComputeRequest } from './pivotComputeHost';
+import { createPivotComputeClient, isAbortError } from './pivotCompute';
+
+// Stands in for a worker that never answers, like one whose copy of pivot.ts lacks an aggregator
+class SilentWorker {
+  static started: SilentWorker[] = [];
+  posted: PivotComputeRequest[] = [];
+  terminated = false;
+  onmessage: unknown = null;
+  onerror: unknown = null;
+
+  constructor() {
+    SilentWorker.started.push(this);
+  }
+
+  postMessage(request: PivotComputeRequest) {
+    this.posted.push(request);
+  }
+
+  terminate() {
+    this.terminated = true;
+  }
+}
+
+const data = [
+  { id: '1', owner: 'Ann', hours: 2 },
+  { id: '2', owner: 'Ann', hours: 5 },
+  { id: '3', owner: 'Bob', hours: 4 }
+];
+
+const config: PivotConfig = { rows: ['owner'], columns: [], values: ['hours'], aggregation: 'range' };
+
+describe('createPivotComputeClient', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    SilentWorker.started = [];
+  });
+
+  it('computes on the calling thread once custom aggregators are registered', async () => {
+    vi.stubGlobal('Worker', SilentWorker);
+    const client = createPivotComputeClient();
+    expect(SilentWorker.started).toHaveLength(1);
+
+    expect(hasCustomAggregators()).toBe(false);
+    registerAggregator('range', () => {
+      let low = Infinity;
+      let high = -Infinity;
+      return {
+        add: value => {
+          low = Math.min(low, Number(value));
+          high = Math.max(high, Number(value));
+        },
+        result: () => high - low
+      };
+    }, 'Range');
+    expect(hasCustomAggregators()).toBe(true);
+
+    const result = await client.compute(data, config);
+    expect(getPivotCellValue(result, result.rowKeys[0], '')).toBe(3);
+    expect(SilentWorker.started[0].terminated).toBe(true);
+    expect(SilentWorker.started[0].posted).toHaveLength(0);
+
+    const items = await client.getCellItems(result.rowKeys[0], '');
+    expect(items.map(item => item.id)).toEqual(['1', '2']);
+    client.dispose();
+  });
+
+  it('keeps computing in a worker started by createWorker', () => {
+    vi.stubGlobal('Worker', SilentWorker);
+    const client = createPivotComputeClient({ createWorker: () => new Worker('custom-worker.js') });
+
+    client.compute(data, config).catch(() => undefined);
+    expect(SilentWorker.started).toHaveLength(1);
+    expect(SilentWorker.started[0].terminated).toBe(false);
+    expect(SilentWorker.started[0].posted.map(request => request.type)).toEqual(['build']);
+    client.dispose();
+  });
+
+  it('answers cell items only for the result they were asked about', async () => {
+    const client = createPivotComputeClient({ worker: false });
+    const countConfig: PivotConfig = { rows: ['owner'], columns: [], values: ['hours'], aggregation: 'count' };
+    const first = await client.compute(data, countConfig);
+    expect((await client.getCellItems(first.rowKeys[0], '', first)).map(item => item.id)).toEqual(['1', '2']);
+
+    // Asked before the newer result arrives, while the engine already holds it
+    const moved = [{ ...data[0], owner: 'Bob' }, data[1], data[2]];
+    const computing = client.compute(moved, countConfig);
+    const stale = client.getCellItems(first.rowKeys[0], '');
+    const second = await computing;
+    expect(await stale.catch(error => isAbortError(error))).toBe(true);
+    await expect(client.getCellItems(first.rowKeys[0], '', first)).rejects.toMatchObject({ name: 'AbortError' });
+
+    expect((await client.getCellItems(second.rowKeys[1], '', second)).map(item => item.id)).toEqual(['1', '3']);
+    expect((await client.getCellItems(second.rowKeys[1], '')).map(item => item.id)).toEqual(['1', '3']);
+    await expect(client.getCellItems('', '', { ...second })).rejects.toThrow('Result was not computed by this client');
+    client.dispose();
+  });
+});
@@ -0,0 +1,200 @@
+import { PivotConfig, PivotData, PivotResult, diffPivotItems, hasCustomAggregators } from './pivot';
+import { PivotComputeRequest, PivotComputeResponse, createPivotComputeHost } from './pivotComputeHost';
+
+// Pivots off the main thread. The items stay with the engine, so results come back with empty
+// `members`; ask getCellItems for the items behind a cell.
+export interface PivotComputeClient {
+  // Only the newest call counts: it rejects earlier pending ones, like `signal`, with an AbortError
+  compute(data: PivotData[], config: PivotConfig, signal?: AbortSignal): Promise<PivotResult>;
+  // Items behind a cell of `result`, the last computed result by default. Rejects with an AbortError
+  // once a newer computation has replaced that result, so a drill-down never mixes the two.
+  getCellItems(rowKey: string, columnKey: string, result?: PivotResult): Promise<PivotData[]>;
+  dispose(): void;
+}
+
+export interface PivotComputeClientOptions {
+  // Set to false to compute on the calling thread; that is also the fallback where workers are unavailable
+  worker?: boolean;
+  // Starts the worker instead of pivot.worker.ts. Aggregators registered on this thread are unknown
+  // to the default worker, so without this the client computes here once any are registered; a
+  // module that registers them and then imports './pivot.worker' makes them available there.
+  createWorker?: () => Worker;
+}
+
+interface PendingComputation {
+  type: 'compute';
+  resolve: (result: PivotResult) => void;
+  reject: (error: Error) => void;
+  // Sent again as a full build when the engine lost the previous data
+  build: { data: PivotData[]; config: PivotConfig };
+}
+
+interface PendingItems {
+  type: 'items';
+  resolve: (items: PivotData[]) => void;
+  reject: (error: Error) => void;
+}
+
+type PendingRequest = PendingComputation | PendingItems;
+
+interface PivotComputeChannel {
+  post(request: PivotComputeRequest): void;
+  dispose(): void;
+}
+
+// Computes in a Web Worker where one can start, otherwise on the calling thread
+export function createPivotComputeClient(options: PivotComputeClientOptions = {}): PivotComputeClient {
+  const { worker = true, createWorker } = options;
+  const pending = new Map<number, PendingRequest>();
+  let nextId = 0;
+  // What the engine holds, so the next computation can send just the changes
+  let sent: { data: PivotData[]; configKey: string } | null = null;
+  // Id of the request each result answered, which the engine knows it by
+  const versions = new WeakMap<PivotResult, number>();
+  let latestVersion = 0;
+
+  const handleResponse = (response: PivotComputeResponse) => {
+    const request = pending.get(response.id);
+    if (!request) return;
+
+    if (response.type === 'error' && response.rebuild && request.type === 'compute') {
+      channel.post({ type: 'build', id: response.id, ...request.build });
+      return;
+    }
+
+    pending.delete(response.id);
+    if (response.type === 'result' && request.type === 'compute') {
+      versions.set(response.result, response.id);
+      latestVersion = response.id;
+      request.resolve(response.result);
+    } else if (response.type === 'items' && request.type === 'items') {
+      request.resolve(response.items);
+    } else if (response.type === 'cancelled') {
+      request.reject(createAbortError());
+    } else if (response.type === 'error') {
+      if (request.type === 'compute') sent = null;
+      request.reject(new Error(response.message));
+    } else {
+      request.reject(new Error(`Unexpected ${response.type} response to a ${request.type} request`));
+    }
+  };
+
+  const createInlineChannel = (): PivotComputeChannel => ({
+    post: createPivotComputeHost(handleResponse),
+    dispose: () => undefined
+  });
+
+  // The engine moves here with whatever was pending, which is sent again from scratch
+  const moveInline = () => {
+    channel.dispose();
+    channel = createInlineChannel();
+    isInline = true;
+    sent = null;
+    pending.forEach((request, id) => {
+      if (request.type === 'compute') {
+        channel.post({ type: 'build', id, ...request.build });
+      } else {
+        // Items of a result the new engine has not built
+        pending.delete(id);
+        request.reject(createAbortError());
+      }
+    });
+  };
+
+  // Workers can fail to start, e.g. under a strict content security policy
+  const fallBack = (error: unknown) => {
+    console.warn('⚠️ Pivot worker unavailable, computing on the main thread:', error);
+    moveInline();
+  };
+
+  const createWorkerChannel = (): PivotComputeChannel => {
+    const instance = createWorker
+      ? createWorker()
+      : new Worker(new URL('./pivot.worker.ts', import.meta.url), { type: 'module' });
+    instance.onmessage = (event: MessageEvent<PivotComputeResponse>) => handleResponse(event.data);
+    instance.onerror = event => {
+      event.preventDefault();
+      fallBack(event.message);
+    };
+    return {
+      post: request => instance.postMessage(request),
+      dispose: () => instance.terminate()
+    };
+  };
+
+  let channel: PivotComputeChannel;
+  let isInline = false;
+  if (worker && typeof Worker !== 'undefined') {
+    try {
+      channel = createWorkerChannel();
+    } catch (error) {
+      console.warn('⚠️ Pivot worker unavailable, computing on the main thread:', error);
+      channel = createInlineChannel();
+      isInline = true;
+    }
+  } else {
+    channel = createInlineChannel();
+    isInline = true;
+  }
+
+  return {
+    compute(data, config, signal) {
+      if (signal && signal.aborted) return Promise.reject(createAbortError());
+
+      // Older computations are stale; their replies are dropped when they arrive
+      pending.forEach((entry, id) => {
+        if (entry.type !== 'compute') return;
+        pending.delete(id);
+        entry.reject(createAbortError());
+      });
+
+      if (!isInline && !createWorker && hasCustomAggregators()) moveInline();
+
+      const configKey = JSON.stringify(config);
+      const changes = sent && sent.configKey === configKey ? diffPivotItems(sent.data, data) : null;
+      sent = { data, configKey };
+
+      const requestId = ++nextId;
+      const promise = new Promise<PivotResult>((resolve, reject) => {
+        pending.set(requestId, { type: 'compute', resolve, reject, build: { data, config } });
+      });
+      channel.post(changes
+        ? { type: 'update', id: requestId, changes }
+        : { type: 'build', id: requestId, data, config });
+
+      signal?.addEventListener('abort', () => {
+        const entry = pending.get(requestId);
+        if (!entry) return;
+        pending.delete(requestId);
+        entry.reject(createAbortError());
+      });
+      return promise;
+    },
+
+    getCellItems(rowKey, columnKey, result) {
+      const version = result ? versions.get(result) : latestVersion;
+      if (version === undefined) return Promise.reject(new Error('Result was not computed by this client'));
+
+      const id = ++nextId;
+      const promise = new Promise<PivotData[]>((resolve, reject) => {
+        pending.set(id, { type: 'items', resolve, reject });
+      });
+      channel.post({ type: 'items', id, rowKey, columnKey, version });
+      return promise;
+    },
+
+    dispose() {
+      channel.dispose();
+      pending.forEach(entry => entry.reject(createAbortError()));
+      pending.clear();
+    }
+  };
+}
+
+export function isAbortError(error: unknown): boolean {
+  return !!error && (error as { name?: unknown }).name === 'AbortError';
+}
+
+function createAbortError(): Error {
+  return new DOMException('Pivot computation was cancelled', 'AbortError');
+}
@@ -0,0 +1,88 @@
+import {
+  PivotConfig,
+  PivotData,
+  PivotEngine,
+  PivotItemChanges,
+  PivotResult,
+  createPivotEngine,
+  getPivotCellItems
+} from './pivot';
+
+// Messages to the thread that holds the pivot engine
+export type PivotComputeRequest =
+  | { type: 'build'; id: number; data: PivotData[]; config: PivotConfig }
+  // Changes relative to the data of the last build or update
+  | { type: 'update'; id: number; changes: PivotItemChanges }
+  // `version` is the id of the build or update whose result the cell belongs to
+  | { type: 'items'; id: number; rowKey: string; columnKey: string; version: number };
+
+// Replies, matched to requests by id; `rebuild` asks for the request again as a full build.
+// Items are only sent while the engine still holds the result they were asked for, else 'cancelled'.
+export type PivotComputeResponse =
+  | { type: 'result'; id: number; result: PivotResult }
+  | { type: 'items'; id: number; items: PivotData[] }
+  | { type: 'error'; id: number; message: string; rebuild?: boolean }
+  | { type: 'cancelled'; id: number };
+
+// Handles requests in order on whichever thread runs it. Requests that arrive together are handled
+// as a batch, in which a full build makes every earlier build and update pointless.
+export function createPivotComputeHost(post: (response: PivotComputeResponse) => void): (request: PivotComputeRequest) => void {
+  let engine: PivotEngine | null = null;
+  // Id of the request that produced the engine's current result
+  let version = 0;
+  let queue: PivotComputeRequest[] = [];
+
+  const run = (request: PivotComputeRequest) => {
+    try {
+      if (request.type === 'build') {
+        engine = null;
+        engine = createPivotEngine(request.data, request.config);
+        version = request.id;
+        post({ type: 'result', id: request.id, result: withoutMembers(engine.result) });
+      } else if (request.type === 'update') {
+        if (!engine) {
+          post({ type: 'error', id: request.id, message: 'No pivot to update', rebuild: true });
+          return;
+        }
+        const result = withoutMembers(engine.update(request.changes));
+        version = request.id;
+        post({ type: 'result', id: request.id, result });
+      } else if (!engine || request.version !== version) {
+        post({ type: 'cancelled', id: request.id });
+      } else {
+        const items = getPivotCellItems(engine.result, engine.items as PivotData[], request.rowKey, request.columnKey);
+        post({ type: 'items', id: request.id, items });
+      }
+    } catch (error) {
+      // A failed build or update leaves nothing consistent to update later
+      if (request.type !== 'items') engine = null;
+      post({ type: 'error', id: request.id, message: error instanceof Error ? error.message : String(error) });
+    }
+  };
+
+  const drain = () => {
+    const batch = queue;
+    queue = [];
+    let lastBuild = -1;
+    batch.forEach((request, index) => {
+      if (request.type === 'build') lastBuild = index;
+    });
+    batch.forEach((request, index) => {
+      if (index < lastBuild && request.type !== 'items') {
+        post({ type: 'cancelled', id: request.id });
+      } else {
+        run(request);
+      }
+    });
+  };
+
+  return request => {
+    queue.push(request);
+    if (queue.length === 1) setTimeout(drain, 0);
+  };
+}
+
+// Member positions point into items only the engine has, and are the bulk of a result
+function withoutMembers(result: PivotResult): PivotResult {
+  return { ...result, members: {} };
+}
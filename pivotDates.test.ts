@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { formatDatePeriod, getDatePeriod, normalizeDateGrouping } from './pivotDates';
+import { createPivotTable, PivotDateGrain, PivotDateGrouping } from './pivot';
+
+const label = (date: string, grouping: PivotDateGrain | PivotDateGrouping) => {
+  const normalized = normalizeDateGrouping(grouping);
+  return formatDatePeriod(getDatePeriod(new Date(date), normalized), normalized);
+};
+
+describe('date periods', () => {
+  it('puts days around the new year in the ISO week of their Thursday', () => {
+    expect(label('2020-12-31', 'week')).toBe('2020-W53');
+    expect(label('2021-01-03', 'week')).toBe('2020-W53');
+    expect(label('2021-01-04', 'week')).toBe('2021-W01');
+    expect(label('2024-12-30', 'week')).toBe('2025-W01');
+    expect(label('2024-12-29', 'week')).toBe('2024-W52');
+  });
+
+  it('starts weeks on Monday', () => {
+    expect(label('2024-03-03', 'dayOfWeek')).toBe('Sun');
+    expect(label('2024-03-04', 'dayOfWeek')).toBe('Mon');
+    expect(getDatePeriod(new Date('2024-03-04'), { grain: 'week' }))
+      .toBe(getDatePeriod(new Date('2024-03-10T23:59:00Z'), { grain: 'week' }));
+  });
+
+  it('splits quarters and fiscal years on their first month', () => {
+    expect(label('2024-03-31', 'quarter')).toBe('2024 Q1');
+    expect(label('2024-04-01', 'quarter')).toBe('2024 Q2');
+    expect(label('2024-12-31', 'quarter')).toBe('2024 Q4');
+    expect(label('2024-03-31', { grain: 'quarter', fiscalYearStart: 4 })).toBe('FY2024 Q4');
+    expect(label('2024-04-01', { grain: 'quarter', fiscalYearStart: 4 })).toBe('FY2025 Q1');
+    expect(label('2024-04-01', { grain: 'year', fiscalYearStart: 4 })).toBe('FY2025');
+    expect(label('2024-04-01', 'month')).toBe('2024-04');
+    expect(label('2024-04-01T12:00:00Z', 'day')).toBe('2024-04-01');
+  });
+
+  it('reads the calendar date in the grouping time zone', () => {
+    expect(label('2024-03-31T23:30:00Z', { grain: 'day', timeZone: 'UTC' })).toBe('2024-03-31');
+    expect(label('2024-03-31T23:30:00Z', { grain: 'quarter', timeZone: 'Europe/Berlin' })).toBe('2024 Q2');
+    expect(label('2024-01-01T03:00:00Z', { grain: 'year', timeZone: 'America/New_York' })).toBe('2023');
+  });
+});
+
+describe('date grouping in pivots', () => {
+  const data = [
+    { due: '2024-01-15', points: 1 },
+    { due: '2024-04-02', points: 2 },
+    { due: { from: new Date('2024-04-20'), to: new Date('2024-05-03') }, points: 4 },
+    { due: null, points: 8 }
+  ];
+
+  it('orders periods in time, fills the gaps between them and puts items without a date last', () => {
+    const result = createPivotTable(data, {
+      rows: [{ field: 'due', dateGrouping: { grain: 'month' } }],
+      columns: [],
+      values: ['points'],
+      aggregation: 'sum'
+    });
+    expect(result.rowTree.map(node => node.label)).toEqual(['2024-01', '2024-02', '2024-03', '2024-04', '']);
+    expect(result.data.map(row => row[0])).toEqual([1, 0, 0, 6, 8]);
+  });
+
+  it('leaves gaps when asked to', () => {
+    const result = createPivotTable(data, {
+      rows: [{ field: 'due', dateGrouping: { grain: 'quarter', fillGaps: false } }],
+      columns: [],
+      values: ['points'],
+      aggregation: 'sum'
+    });
+    expect(result.rowTree.map(node => node.label)).toEqual(['2024 Q1', '2024 Q2', '']);
+  });
+});
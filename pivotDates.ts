@@ -0,0 +1,112 @@
+import type { PivotDateGrouping, PivotDateGrain } from './pivot';
+
+// Calendar date as seen in the grouping's time zone; month is 1-12
+interface CalendarDate {
+  year: number;
+  month: number;
+  day: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// 1970-01-05, the first Monday after the epoch, in days since the epoch
+const FIRST_MONDAY = 4;
+const WEEKDAY_LABELS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+export function normalizeDateGrouping(grouping: PivotDateGrain | PivotDateGrouping): PivotDateGrouping {
+  return typeof grouping === 'string' ? { grain: grouping } : grouping;
+}
+
+// Consecutive integer for the period the date falls into, so periods sort and gaps can be counted
+export function getDatePeriod(date: Date, grouping: PivotDateGrouping): number {
+  const { year, month, day } = getCalendarDate(date, grouping.timeZone || 'UTC');
+  const days = Math.floor(Date.UTC(year, month - 1, day) / DAY_MS);
+
+  switch (grouping.grain) {
+    case 'year':
+      return getFiscalYear(year, month, grouping);
+    case 'quarter':
+      return getFiscalYear(year, month, grouping) * 4 + Math.floor(getFiscalMonth(month, grouping) / 3);
+    case 'month':
+      return year * 12 + month - 1;
+    case 'week':
+      return Math.floor((days - FIRST_MONDAY) / 7);
+    case 'day':
+      return days;
+    case 'dayOfWeek':
+      return getWeekday(days);
+  }
+}
+
+// Sortable label for a period: "2024", "FY2025 Q1", "2024-03", "2024-W09", "2024-03-01", "Fri"
+export function formatDatePeriod(period: number, grouping: PivotDateGrouping): string {
+  const fiscal = (grouping.fiscalYearStart || 1) !== 1;
+  const yearLabel = (fiscalYear: number) => (fiscal ? `FY${fiscalYear}` : String(fiscalYear));
+
+  switch (grouping.grain) {
+    case 'year':
+      return yearLabel(period);
+    case 'quarter':
+      return `${yearLabel(Math.floor(period / 4))} Q${(period % 4) + 1}`;
+    case 'month':
+      return `${Math.floor(period / 12)}-${pad(period % 12 + 1)}`;
+    case 'week': {
+      // The ISO week belongs to the year of its Thursday
+      const monday = period * 7 + FIRST_MONDAY;
+      const thursday = new Date((monday + 3) * DAY_MS);
+      const isoYear = thursday.getUTCFullYear();
+      const week = Math.floor((monday + 3 - Date.UTC(isoYear, 0, 1) / DAY_MS) / 7) + 1;
+      return `${isoYear}-W${pad(week)}`;
+    }
+    case 'day':
+      return new Date(period * DAY_MS).toISOString().slice(0, 10);
+    case 'dayOfWeek':
+      return WEEKDAY_LABELS[period];
+  }
+}
+
+function getCalendarDate(date: Date, timeZone: string): CalendarDate {
+  if (timeZone === 'UTC') {
+    return { year: date.getUTCFullYear(), month: date.getUTCMonth() + 1, day: date.getUTCDate() };
+  }
+
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric'
+    });
+    formatters.set(timeZone, formatter);
+  }
+
+  const parts: Record<string, number> = {};
+  for (const part of formatter.formatToParts(date)) {
+    if (part.type === 'year' || part.type === 'month' || part.type === 'day') {
+      parts[part.type] = Number(part.value);
+    }
+  }
+  return { year: parts.year, month: parts.month, day: parts.day };
+}
+
+// Fiscal years are named after the calendar year they end in
+function getFiscalYear(year: number, month: number, grouping: PivotDateGrouping): number {
+  const start = grouping.fiscalYearStart || 1;
+  return start > 1 && month >= start ? year + 1 : year;
+}
+
+// Months since the start of the fiscal year, 0-11
+function getFiscalMonth(month: number, grouping: PivotDateGrouping): number {
+  return (month - (grouping.fiscalYearStart || 1) + 12) % 12;
+}
+
+// 0 for Monday through 6 for Sunday
+function getWeekday(days: number): number {
+  return ((days - FIRST_MONDAY) % 7 + 7) % 7;
+}
+
+function pad(value: number): string {
+  return String(value).padStart(2, '0');
+}
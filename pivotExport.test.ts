@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'vitest';
+import { createPivotTable } from './pivot';
+import { exportPivotToCsv, exportPivotToTsv, exportPivotToXlsx } from './pivotExport';
+
+const data = [
+  { region: 'East', owner: '=HYPERLINK("http://x")', status: 'Done', budget: 1200.5 },
+  { region: 'East', owner: 'Smith, Ann', status: 'Open', budget: -40 },
+  { region: 'West', owner: '@Bob', status: 'Done', budget: 300 }
+];
+
+const result = createPivotTable(data, {
+  rows: ['region', 'owner'],
+  columns: ['status'],
+  values: [],
+  measures: [{ field: 'budget', aggregation: 'sum', format: { style: 'currency', currency: 'USD' } }]
+});
+
+// Reads the stored entries of a zip through its central directory, as a spreadsheet app would
+function unzip(zip: Uint8Array): Record<string, string> {
+  const view = new DataView(zip.buffer, zip.byteOffset, zip.byteLength);
+  const decoder = new TextDecoder();
+  const end = zip.byteLength - 22;
+  expect(view.getUint32(end, true)).toBe(0x06054b50);
+
+  const files: Record<string, string> = {};
+  let position = view.getUint32(end + 16, true);
+  for (let i = 0; i < view.getUint16(end + 10, true); i++) {
+    expect(view.getUint32(position, true)).toBe(0x02014b50);
+    expect(view.getUint16(position + 10, true)).toBe(0);
+    const size = view.getUint32(position + 20, true);
+    const nameLength = view.getUint16(position + 28, true);
+    const name = decoder.decode(zip.subarray(position + 46, position + 46 + nameLength));
+    const local = view.getUint32(position + 42, true);
+    expect(view.getUint32(local, true)).toBe(0x04034b50);
+    const start = local + 30 + view.getUint16(local + 26, true);
+    files[name] = decoder.decode(zip.subarray(start, start + size));
+    position += 46 + nameLength;
+  }
+  return files;
+}
+
+describe('exportPivotToCsv', () => {
+  it('quotes fields that hold delimiters, quotes or surrounding spaces', () => {
+    const csv = exportPivotToCsv(result).split('\r\n');
+    expect(csv[0]).toBe('region / owner,,Done,Open,Total');
+    expect(csv[2]).toBe(',"Smith, Ann",0,-40,-40');
+    expect(exportPivotToCsv(result, { delimiter: ';' }).split('\r\n')[2]).toBe(';Smith, Ann;0;-40;-40');
+  });
+
+  it('keeps labels that read like formulas as text but leaves negative numbers alone', () => {
+    const csv = exportPivotToCsv(result).split('\r\n');
+    expect(csv[1]).toBe(`East,"'=HYPERLINK(""http://x"")",1200.5,0,1200.5`);
+    expect(csv[4]).toBe("West,'@Bob,300,0,300");
+  });
+});
+
+describe('exportPivotToTsv', () => {
+  it('formats values as displayed and escapes formula-like labels', () => {
+    const tsv = exportPivotToTsv(result, 'en-US').split('\n');
+    expect(tsv[1]).toBe(`East\t'=HYPERLINK("http://x")\t$1,200.50\t$0.00\t$1,200.50`);
+    expect(tsv[2]).toBe('\tSmith, Ann\t$0.00\t-$40.00\t-$40.00');
+  });
+});
+
+describe('exportPivotToXlsx', () => {
+  const files = unzip(exportPivotToXlsx(result, 'Budget: Q1/Q2', 'en-US'));
+  const sheet = files['xl/worksheets/sheet1.xml'];
+
+  it('packs the parts every xlsx reader expects', () => {
+    expect(Object.keys(files)).toEqual([
+      '[Content_Types].xml',
+      '_rels/.rels',
+      'xl/workbook.xml',
+      'xl/_rels/workbook.xml.rels',
+      'xl/styles.xml',
+      'xl/worksheets/sheet1.xml'
+    ]);
+    expect(files['xl/workbook.xml']).toContain('<sheet name="Budget  Q1 Q2" sheetId="1" r:id="rId1"/>');
+  });
+
+  it('writes labels as escaped inline strings and values as numbers', () => {
+    expect(sheet).toContain('<c r="B2" s="1" t="inlineStr"><is><t xml:space="preserve">=HYPERLINK(&quot;http://x&quot;)</t></is></c>');
+    expect(sheet).toContain('<c r="D3" s="2"><v>-40</v></c>');
+    expect(sheet).toContain('<pane xSplit="2" ySplit="1" topLeftCell="C2" activePane="bottomRight" state="frozen"/>');
+  });
+
+  it('merges spanning headers', () => {
+    expect(sheet).toContain(
+      '<mergeCells count="5"><mergeCell ref="A1:B1"/><mergeCell ref="A2:A3"/><mergeCell ref="A4:B4"/>' +
+      '<mergeCell ref="A6:B6"/><mergeCell ref="A7:B7"/></mergeCells>'
+    );
+  });
+
+  it('registers the measure number format once and bolds totals', () => {
+    const styles = files['xl/styles.xml'];
+    expect(styles).toContain('<numFmts count="1"><numFmt numFmtId="164" formatCode="&quot;$&quot;#,##0.00"/></numFmts>');
+    expect(styles).toContain(
+      '<cellXfs count="4"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>' +
+      '<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/>' +
+      '<xf numFmtId="164" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>' +
+      '<xf numFmtId="164" fontId="1" fillId="0" borderId="0" xfId="0" applyNumberFormat="1" applyFont="1"/></cellXfs>'
+    );
+    expect(sheet).toContain('<c r="E7" s="3"><v>1460.5</v></c>');
+  });
+});
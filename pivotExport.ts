@@ -0,0 +1,212 @@
+import { PivotMeasure, PivotResult, formatPivotValue, getMeasureNumberFormat, getPivotCellValue } from './pivot';
+import { getPivotLayout, PivotEntryType } from './pivotLayout';
+import { getExcelNumberFormat } from './pivotNumberFormat';
+import { createXlsx, XlsxCell, XlsxMerge } from './xlsx';
+
+export type PivotExportFormat = 'csv' | 'xlsx' | 'tsv';
+
+// One cell of the table as a plain grid; cells covered by a span are null
+export interface PivotGridCell {
+  value: string | number | null;
+  type: 'corner' | 'header' | 'value';
+  // Whether the cell belongs to a subtotal or grand total
+  total: boolean;
+  rowSpan: number;
+  colSpan: number;
+  measure?: PivotMeasure;
+}
+
+export interface PivotGrid {
+  cells: (PivotGridCell | null)[][];
+  headerRows: number;
+  headerColumns: number;
+}
+
+export interface PivotCsvOptions {
+  delimiter?: string;
+}
+
+const MIME_TYPES: Record<PivotExportFormat, string> = {
+  csv: 'text/csv;charset=utf-8',
+  tsv: 'text/tab-separated-values;charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+};
+
+// Lays the result out exactly like PivotTable: corner, column headers, row headers and values
+export function getPivotGrid(result: PivotResult): PivotGrid {
+  const layout = getPivotLayout(result);
+  const headerRows = layout.columnHeaderRows.length;
+  const headerColumns = layout.rowLevels;
+  const width = headerColumns + layout.columns.length;
+  const slots: (PivotGridCell | null | undefined)[][] = Array.from(
+    { length: headerRows + layout.rows.length },
+    () => new Array(width).fill(undefined)
+  );
+
+  const place = (row: number, cells: PivotGridCell[]) => {
+    let column = 0;
+    for (const cell of cells) {
+      while (slots[row][column] !== undefined) column++;
+      for (let r = 0; r < cell.rowSpan; r++) {
+        for (let c = 0; c < cell.colSpan; c++) {
+          slots[row + r][column + c] = r === 0 && c === 0 ? cell : null;
+        }
+      }
+      column += cell.colSpan;
+    }
+  };
+
+  layout.columnHeaderRows.forEach((headerRow, level) => {
+    const corner: PivotGridCell[] = level === 0
+      ? [{
+        value: result.rowFields.join(' / '),
+        type: 'corner',
+        total: false,
+        rowSpan: headerRows,
+        colSpan: headerColumns
+      }]
+      : [];
+    place(level, [
+      ...corner,
+      ...headerRow.map(header => ({
+        value: header.label,
+        type: 'header' as const,
+        total: isTotal(header.type),
+        rowSpan: header.rowSpan,
+        colSpan: header.colSpan
+      }))
+    ]);
+  });
+
+  layout.rows.forEach((row, index) => {
+    const rowIndex = headerRows + index;
+    place(rowIndex, row.headers.map(header => ({
+      value: header.label,
+      type: 'header',
+      total: isTotal(header.type),
+      rowSpan: header.rowSpan,
+      colSpan: header.colSpan
+    })));
+
+    layout.columns.forEach((column, columnIndex) => {
+      const value = getPivotCellValue(result, row.entry.key, column.key, column.measure);
+      slots[rowIndex][headerColumns + columnIndex] = {
+        value: Number.isNaN(value) ? null : value,
+        type: 'value',
+        total: isTotal(row.entry.type) || isTotal(column.type),
+        rowSpan: 1,
+        colSpan: 1,
+        measure: result.measures[column.measure]
+      };
+    });
+  });
+
+  return {
+    cells: slots.map(row => row.map(cell => cell ?? null)),
+    headerRows,
+    headerColumns
+  };
+}
+
+// RFC 4180 CSV with raw, unformatted numbers
+export function exportPivotToCsv(result: PivotResult, options: PivotCsvOptions = {}): string {
+  const { delimiter = ',' } = options;
+  return getPivotGrid(result).cells
+    .map(row => row.map(cell => {
+      if (!cell || cell.value === null) return '';
+      return quoteCsvField(typeof cell.value === 'number' ? String(cell.value) : escapeFormula(cell.value), delimiter);
+    }).join(delimiter))
+    .join('\r\n');
+}
+
+// Tab-separated text with values formatted as displayed, for pasting into sheets and slides
+export function exportPivotToTsv(result: PivotResult, locale?: string): string {
+  return getPivotGrid(result).cells
+    .map(row => row.map(cell => {
+      if (!cell || cell.value === null) return '';
+      if (typeof cell.value === 'number') {
+        return cell.measure ? formatPivotValue(cell.value, cell.measure, locale) : String(cell.value);
+      }
+      return escapeFormula(cell.value.replace(/[\t\r\n]+/g, ' '));
+    }).join('\t'))
+    .join('\n');
+}
+
+// An .xlsx workbook with merged hierarchical headers, frozen headers and per-measure number formats;
+// the locale only picks currency symbols, since Excel applies the reader's own separators
+export function exportPivotToXlsx(result: PivotResult, sheetName = 'Pivot', locale?: string): Uint8Array {
+  const grid = getPivotGrid(result);
+  const merges: XlsxMerge[] = [];
+
+  const rows = grid.cells.map((row, r) => row.map((cell, c): XlsxCell | null => {
+    if (!cell) return null;
+    if (cell.rowSpan > 1 || cell.colSpan > 1) {
+      merges.push({ row: r, column: c, rowSpan: cell.rowSpan, colSpan: cell.colSpan });
+    }
+    if (cell.type !== 'value') return { value: cell.value, bold: true };
+    return {
+      value: cell.value,
+      bold: cell.total,
+      numberFormat: getNumberFormat(cell.value, cell.measure, locale)
+    };
+  }));
+
+  return createXlsx({
+    name: sheetName,
+    rows,
+    merges,
+    frozenRows: grid.headerRows,
+    frozenColumns: grid.headerColumns
+  });
+}
+
+// Saves the export through a temporary download link
+export function downloadPivotExport(
+  result: PivotResult,
+  format: PivotExportFormat,
+  fileName = 'pivot',
+  locale?: string
+): void {
+  const content = format === 'xlsx'
+    ? exportPivotToXlsx(result, undefined, locale)
+    // The byte order mark makes Excel open UTF-8 text files with the right encoding
+    : '\uFEFF' + (format === 'csv' ? exportPivotToCsv(result) : exportPivotToTsv(result, locale));
+
+  const url = URL.createObjectURL(new Blob([content], { type: MIME_TYPES[format] }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${fileName}.${format}`;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+export async function copyPivotToClipboard(result: PivotResult, locale?: string): Promise<void> {
+  if (typeof navigator === 'undefined' || !navigator.clipboard) {
+    throw new Error('Clipboard is not available in this environment');
+  }
+  await navigator.clipboard.writeText(exportPivotToTsv(result, locale));
+}
+
+function isTotal(type: PivotEntryType | 'measure'): boolean {
+  return type === 'subtotal' || type === 'total';
+}
+
+// Labels come from board data, so one starting like a formula is kept as text instead of run by the spreadsheet
+function escapeFormula(value: string): string {
+  return /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+}
+
+function quoteCsvField(value: string, delimiter: string): string {
+  if (value.includes(delimiter) || /["\r\n]/.test(value) || value !== value.trim()) {
+    return `"${value.replace(/"/g, '""')}"`;
+  }
+  return value;
+}
+
+// Mirrors formatPivotValue with the measure's number format
+function getNumberFormat(value: string | number | null, measure: PivotMeasure | undefined, locale?: string): string | undefined {
+  if (typeof value !== 'number') return undefined;
+  return getExcelNumberFormat(value, measure ? getMeasureNumberFormat(measure) : {}, locale);
+}
@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { parseExpression, PivotExpressionError } from './pivotExpressions';
+import { createPivotTable, formatGroupValue, getPivotCellValue, PivotData } from './pivot';
+
+const evaluate = (source: string, item: PivotData) =>
+  parseExpression(source).evaluate({ field: name => item[name] });
+
+describe('parseExpression', () => {
+  const item: PivotData = {
+    budget: 1200,
+    spent: 450,
+    status: 'Done',
+    owner: ['Alice', 'Bob'],
+    'Due date': new Date('2024-03-15T00:00:00Z'),
+    timeline: { from: new Date('2024-03-01T00:00:00Z'), to: new Date('2024-03-31T00:00:00Z') },
+    week: { from: null, to: null }
+  };
+
+  it('evaluates arithmetic, comparisons and functions over item fields', () => {
+    expect(evaluate('budget - spent', item)).toBe(750);
+    expect(evaluate('if(status = "Done", budget, 0)', item)).toBe(1200);
+    expect(evaluate('[Due date]', item)).toEqual(new Date('2024-03-15T00:00:00Z'));
+  });
+
+  it('compares lists by their display text', () => {
+    expect(evaluate('owner', item)).toBe('Alice, Bob');
+    expect(evaluate('owner = "Alice, Bob"', item)).toBe(true);
+  });
+
+  it('compares timelines by the same text as their group label', () => {
+    expect(evaluate('timeline', item)).toBe('2024-03-01 – 2024-03-31');
+    expect(evaluate('timeline', item)).toBe(formatGroupValue(item.timeline));
+    expect(evaluate('concat("Sprint ", timeline)', item)).toBe('Sprint 2024-03-01 – 2024-03-31');
+    expect(evaluate('len(timeline)', item)).toBe(23);
+  });
+
+  it('keeps the time of dates that are not at midnight, like group labels do', () => {
+    const meeting = { from: new Date('2024-03-01T09:30:00Z'), to: new Date('2024-03-01T10:00:00Z') };
+    expect(evaluate('slot', { slot: meeting })).toBe('2024-03-01 09:30 – 2024-03-01 10:00');
+    expect(evaluate('concat(at)', { at: new Date('2024-03-01T09:30:00Z') })).toBe(formatGroupValue(new Date('2024-03-01T09:30:00Z')));
+  });
+
+  it('treats empty timelines as blank', () => {
+    expect(evaluate('week', item)).toBeNull();
+    expect(evaluate('coalesce(week, "unscheduled")', item)).toBe('unscheduled');
+  });
+
+  it('reports type mismatches with their position', () => {
+    expect(() => evaluate('timeline + 1', item)).toThrow(PivotExpressionError);
+    expect(() => evaluate('timeline + 1', item)).toThrow('Cannot apply "+" to text "2024-03-01 – 2024-03-31" and number 1 at position 10');
+  });
+});
+
+describe('measure formulas', () => {
+  it('match aggregation names without regard to case', () => {
+    const data = [{ team: 'A', owner: 'Ann', hours: 2 }, { team: 'A', owner: 'Ann', hours: 3 }, { team: 'A', owner: 'Bob', hours: 5 }];
+    const result = createPivotTable(data, {
+      rows: ['team'],
+      columns: [],
+      values: [],
+      aggregation: 'sum',
+      measures: [{ aggregation: 'formula', formula: 'SUM(hours) / CountDistinct(owner)' }]
+    });
+    expect(getPivotCellValue(result, result.rowKeys[0], '')).toBe(5);
+  });
+});
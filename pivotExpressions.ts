@@ -0,0 +1,579 @@
+// Small expression language for calculated fields and measure formulas. Expressions are parsed
+// into a tree and interpreted; nothing is ever handed to eval or Function.
+//
+//   budget - spent                    field references; [Due date] for names with spaces
+//   hours * rate * 1.2                + - * / % with the usual precedence
+//   if(status = "Done", 1, 0)         comparisons = != < <= > >=, and / or / not
+//   sum(profit) / sum(revenue)        aggregates, in measure formulas only
+
+import { formatGroupValue, isRange } from './pivot';
+
+export type PivotExpressionValue = number | string | boolean | Date | null;
+
+// An aggregate call inside a measure formula, such as sum(profit) or count()
+export interface PivotExpressionAggregate {
+  aggregation: string;
+  field?: string;
+}
+
+export interface PivotExpressionScope {
+  // Value of a field on the current item (calculated fields)
+  field?: (name: string) => unknown;
+  // Result of `aggregates[index]` for the current cell (measure formulas)
+  aggregate?: (index: number) => number;
+}
+
+export interface PivotExpression {
+  source: string;
+  // Fields read directly or through aggregates
+  fields: string[];
+  aggregates: PivotExpressionAggregate[];
+  evaluate(scope: PivotExpressionScope): PivotExpressionValue;
+}
+
+export interface ParseExpressionOptions {
+  // The aggregation `name(field)` reads, if `name` is one; names match without regard to case.
+  // Without it every call is a plain function.
+  findAggregation?: (name: string) => string | undefined;
+  // Measure formulas may only read fields through aggregates
+  aggregatesOnly?: boolean;
+}
+
+export class PivotExpressionError extends Error {
+  // Character offset in the source, when the error points at one
+  readonly position?: number;
+
+  constructor(message: string, position?: number) {
+    super(position === undefined ? message : `${message} at position ${position + 1}`);
+    this.name = 'PivotExpressionError';
+    this.position = position;
+  }
+}
+
+type BinaryOperator = '+' | '-' | '*' | '/' | '%' | '=' | '!=' | '<' | '<=' | '>' | '>=' | 'and' | 'or';
+
+type ExpressionNode =
+  | { type: 'literal'; value: PivotExpressionValue; position: number }
+  | { type: 'field'; name: string; position: number }
+  | { type: 'aggregate'; index: number; position: number }
+  | { type: 'unary'; operator: '-' | 'not'; operand: ExpressionNode; position: number }
+  | { type: 'binary'; operator: BinaryOperator; left: ExpressionNode; right: ExpressionNode; position: number }
+  | { type: 'call'; name: string; args: ExpressionNode[]; position: number };
+
+interface Token {
+  type: 'number' | 'string' | 'identifier' | 'operator' | 'end';
+  value: string;
+  position: number;
+  // [Field name] identifiers are always field references, never keywords or functions
+  bracketed?: boolean;
+}
+
+const OPERATORS = ['<=', '>=', '!=', '<>', '==', '+', '-', '*', '/', '%', '=', '<', '>', '(', ')', ','];
+const KEYWORDS = new Set(['and', 'or', 'not', 'true', 'false', 'null']);
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type ExpressionFunction = (args: PivotExpressionValue[], position: number) => PivotExpressionValue;
+
+const FUNCTIONS: Record<string, { arity: [number, number]; call: ExpressionFunction }> = {
+  abs: { arity: [1, 1], call: ([x], at) => mapNumber(x, at, 'abs', Math.abs) },
+  floor: { arity: [1, 1], call: ([x], at) => mapNumber(x, at, 'floor', Math.floor) },
+  ceil: { arity: [1, 1], call: ([x], at) => mapNumber(x, at, 'ceil', Math.ceil) },
+  round: {
+    arity: [1, 2],
+    call: ([x, digits = 0], at) => {
+      if (x === null || digits === null) return null;
+      const factor = 10 ** expectNumber(digits, at, 'round');
+      return Math.round(expectNumber(x, at, 'round') * factor) / factor;
+    }
+  },
+  min: { arity: [1, Infinity], call: (args, at) => reduceNumbers(args, at, 'min', Math.min) },
+  max: { arity: [1, Infinity], call: (args, at) => reduceNumbers(args, at, 'max', Math.max) },
+  coalesce: { arity: [1, Infinity], call: args => args.find(arg => arg !== null && arg !== '') ?? null },
+  // Evaluated lazily by the interpreter so only the chosen branch runs
+  if: { arity: [2, 3], call: () => null },
+  len: {
+    arity: [1, 1],
+    call: ([x], at) => (x === null ? null : expectText(x, at, 'len').length)
+  },
+  lower: { arity: [1, 1], call: ([x], at) => (x === null ? null : expectText(x, at, 'lower').toLowerCase()) },
+  upper: { arity: [1, 1], call: ([x], at) => (x === null ? null : expectText(x, at, 'upper').toUpperCase()) },
+  concat: {
+    arity: [1, Infinity],
+    call: args => args.map(arg => (arg === null ? '' : formatGroupValue(arg))).join('')
+  }
+};
+
+export function parseExpression(source: string, options: ParseExpressionOptions = {}): PivotExpression {
+  const parser = new Parser(source, options);
+  const root = parser.parse();
+  const { aggregates } = parser;
+  const fields = Array.from(new Set([
+    ...parser.fields,
+    ...aggregates.map(aggregate => aggregate.field).filter((field): field is string => !!field)
+  ]));
+
+  return {
+    source,
+    fields,
+    aggregates,
+    evaluate: scope => evaluate(root, scope)
+  };
+}
+
+// How the field is written in an expression: bare when it is a plain name, bracketed otherwise
+export function formatFieldReference(name: string): string {
+  return /^[\p{L}_][\p{L}\p{N}_]*$/u.test(name) && !KEYWORDS.has(name.toLowerCase()) ? name : `[${name}]`;
+}
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < source.length) {
+    const char = source[i];
+
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    if (/[0-9.]/.test(char)) {
+      const match = /^(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?/.exec(source.slice(i));
+      if (!match) throw new PivotExpressionError(`Unexpected "${char}"`, i);
+      tokens.push({ type: 'number', value: match[0], position: i });
+      i += match[0].length;
+      continue;
+    }
+
+    if (char === '"' || char === "'") {
+      let value = '';
+      let j = i + 1;
+      while (j < source.length && source[j] !== char) {
+        if (source[j] === '\\' && j + 1 < source.length) j++;
+        value += source[j];
+        j++;
+      }
+      if (j >= source.length) throw new PivotExpressionError('Unterminated text', i);
+      tokens.push({ type: 'string', value, position: i });
+      i = j + 1;
+      continue;
+    }
+
+    // [Field name] for column titles with spaces or symbols
+    if (char === '[') {
+      const end = source.indexOf(']', i + 1);
+      if (end === -1) throw new PivotExpressionError('Missing "]"', i);
+      tokens.push({ type: 'identifier', value: source.slice(i + 1, end).trim(), position: i, bracketed: true });
+      i = end + 1;
+      continue;
+    }
+
+    const identifier = /^[\p{L}_][\p{L}\p{N}_]*/u.exec(source.slice(i));
+    if (identifier) {
+      tokens.push({ type: 'identifier', value: identifier[0], position: i });
+      i += identifier[0].length;
+      continue;
+    }
+
+    const operator = OPERATORS.find(candidate => source.startsWith(candidate, i));
+    if (!operator) throw new PivotExpressionError(`Unexpected "${char}"`, i);
+    tokens.push({ type: 'operator', value: operator, position: i });
+    i += operator.length;
+  }
+
+  tokens.push({ type: 'end', value: '', position: source.length });
+  return tokens;
+}
+
+// Recursive descent, lowest precedence first: or, and, not, comparison, + -, * / %, unary minus
+class Parser {
+  readonly fields: string[] = [];
+  readonly aggregates: PivotExpressionAggregate[] = [];
+  private readonly tokens: Token[];
+  private index = 0;
+
+  constructor(source: string, private readonly options: ParseExpressionOptions) {
+    this.tokens = tokenize(source);
+  }
+
+  parse(): ExpressionNode {
+    if (this.peek().type === 'end') throw new PivotExpressionError('Expression is empty');
+    const node = this.parseOr();
+    const next = this.peek();
+    if (next.type !== 'end') throw new PivotExpressionError(`Unexpected "${next.value}"`, next.position);
+    return node;
+  }
+
+  private parseOr(): ExpressionNode {
+    let left = this.parseAnd();
+    while (this.isKeyword('or')) {
+      const { position } = this.next();
+      left = { type: 'binary', operator: 'or', left, right: this.parseAnd(), position };
+    }
+    return left;
+  }
+
+  private parseAnd(): ExpressionNode {
+    let left = this.parseNot();
+    while (this.isKeyword('and')) {
+      const { position } = this.next();
+      left = { type: 'binary', operator: 'and', left, right: this.parseNot(), position };
+    }
+    return left;
+  }
+
+  private parseNot(): ExpressionNode {
+    if (this.isKeyword('not')) {
+      const { position } = this.next();
+      return { type: 'unary', operator: 'not', operand: this.parseNot(), position };
+    }
+    return this.parseComparison();
+  }
+
+  private parseComparison(): ExpressionNode {
+    const left = this.parseAdditive();
+    const token = this.peek();
+    if (token.type !== 'operator' || !['=', '==', '!=', '<>', '<', '<=', '>', '>='].includes(token.value)) {
+      return left;
+    }
+    this.next();
+    const operator = (token.value === '==' ? '=' : token.value === '<>' ? '!=' : token.value) as BinaryOperator;
+    return { type: 'binary', operator, left, right: this.parseAdditive(), position: token.position };
+  }
+
+  private parseAdditive(): ExpressionNode {
+    let left = this.parseMultiplicative();
+    while (this.isOperator('+') || this.isOperator('-')) {
+      const token = this.next();
+      const right = this.parseMultiplicative();
+      left = { type: 'binary', operator: token.value as BinaryOperator, left, right, position: token.position };
+    }
+    return left;
+  }
+
+  private parseMultiplicative(): ExpressionNode {
+    let left = this.parseUnary();
+    while (this.isOperator('*') || this.isOperator('/') || this.isOperator('%')) {
+      const token = this.next();
+      const right = this.parseUnary();
+      left = { type: 'binary', operator: token.value as BinaryOperator, left, right, position: token.position };
+    }
+    return left;
+  }
+
+  private parseUnary(): ExpressionNode {
+    if (this.isOperator('-')) {
+      const { position } = this.next();
+      return { type: 'unary', operator: '-', operand: this.parseUnary(), position };
+    }
+    if (this.isOperator('+')) {
+      this.next();
+      return this.parseUnary();
+    }
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): ExpressionNode {
+    const token = this.next();
+
+    switch (token.type) {
+      case 'number':
+        return { type: 'literal', value: Number(token.value), position: token.position };
+      case 'string':
+        return { type: 'literal', value: token.value, position: token.position };
+      case 'identifier':
+        return this.parseIdentifier(token);
+      case 'operator':
+        if (token.value === '(') {
+          const inner = this.parseOr();
+          this.expect(')');
+          return inner;
+        }
+        throw new PivotExpressionError(`Unexpected "${token.value}"`, token.position);
+      case 'end':
+        throw new PivotExpressionError('Expression ended unexpectedly', token.position);
+    }
+  }
+
+  private parseIdentifier(token: Token): ExpressionNode {
+    const { bracketed } = token;
+    const name = token.value;
+    const keyword = name.toLowerCase();
+
+    if (!bracketed && this.isOperator('(')) {
+      return this.parseCall(name, token.position);
+    }
+    if (!bracketed && KEYWORDS.has(keyword)) {
+      if (keyword === 'true' || keyword === 'false') {
+        return { type: 'literal', value: keyword === 'true', position: token.position };
+      }
+      if (keyword === 'null') return { type: 'literal', value: null, position: token.position };
+      throw new PivotExpressionError(`Unexpected "${name}"`, token.position);
+    }
+
+    if (this.options.aggregatesOnly) {
+      throw new PivotExpressionError(
+        `Field "${name}" must be aggregated in a measure formula, e.g. sum(${formatFieldReference(name)})`,
+        token.position
+      );
+    }
+    if (!this.fields.includes(name)) this.fields.push(name);
+    return { type: 'field', name, position: token.position };
+  }
+
+  private parseCall(name: string, position: number): ExpressionNode {
+    this.expect('(');
+    const { findAggregation, aggregatesOnly } = this.options;
+    const fn = FUNCTIONS[name.toLowerCase()];
+    const aggregation = findAggregation ? findAggregation(name) : undefined;
+
+    // sum(field) or count() in a measure formula reads that aggregate for the current cell;
+    // min and max with other arguments stay plain functions
+    if (aggregation !== undefined && this.isAggregateArgument()) {
+      if (aggregatesOnly) {
+        const field = this.isOperator(')') ? undefined : this.next().value;
+        this.expect(')');
+        this.aggregates.push(field === undefined ? { aggregation } : { aggregation, field });
+        return { type: 'aggregate', index: this.aggregates.length - 1, position };
+      }
+      if (!fn) {
+        throw new PivotExpressionError(`Aggregation ${name}() can only be used in measure formulas`, position);
+      }
+    }
+
+    if (!fn) {
+      const hint = aggregatesOnly && aggregation !== undefined
+        ? ` (aggregations take a single field, e.g. ${name}(budget))`
+        : '';
+      throw new PivotExpressionError(`Unknown function "${name}"${hint}`, position);
+    }
+
+    const args: ExpressionNode[] = [];
+    if (!this.isOperator(')')) {
+      args.push(this.parseOr());
+      while (this.isOperator(',')) {
+        this.next();
+        args.push(this.parseOr());
+      }
+    }
+    this.expect(')');
+
+    const [minArgs, maxArgs] = fn.arity;
+    if (args.length < minArgs || args.length > maxArgs) {
+      const expected = minArgs === maxArgs ? `${minArgs}` : maxArgs === Infinity ? `at least ${minArgs}` : `${minArgs} to ${maxArgs}`;
+      throw new PivotExpressionError(
+        `${name}() takes ${expected} argument${expected === '1' ? '' : 's'}, got ${args.length}`,
+        position
+      );
+    }
+    return { type: 'call', name: name.toLowerCase(), args, position };
+  }
+
+  // Right after "(": nothing, or a lone field name, before ")"
+  private isAggregateArgument(): boolean {
+    if (this.isOperator(')')) return true;
+    const argument = this.peek();
+    const after = this.tokens[this.index + 1];
+    return argument.type === 'identifier' &&
+      (argument.bracketed || !KEYWORDS.has(argument.value.toLowerCase())) &&
+      after.type === 'operator' && after.value === ')';
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+
+  private next(): Token {
+    const token = this.tokens[this.index];
+    if (token.type !== 'end') this.index++;
+    return token;
+  }
+
+  private isOperator(value: string): boolean {
+    const token = this.peek();
+    return token.type === 'operator' && token.value === value;
+  }
+
+  private isKeyword(keyword: string): boolean {
+    const token = this.peek();
+    return token.type === 'identifier' && !token.bracketed && token.value.toLowerCase() === keyword;
+  }
+
+  private expect(value: string): void {
+    const token = this.next();
+    if (token.type !== 'operator' || token.value !== value) {
+      throw new PivotExpressionError(
+        token.type === 'end' ? `Missing "${value}"` : `Expected "${value}" but found "${token.value}"`,
+        token.position
+      );
+    }
+  }
+}
+
+function evaluate(node: ExpressionNode, scope: PivotExpressionScope): PivotExpressionValue {
+  switch (node.type) {
+    case 'literal':
+      return node.value;
+
+    case 'field': {
+      if (!scope.field) throw new PivotExpressionError(`Field "${node.name}" is not available here`, node.position);
+      return toExpressionValue(scope.field(node.name));
+    }
+
+    case 'aggregate': {
+      if (!scope.aggregate) throw new PivotExpressionError('Aggregates are not available here', node.position);
+      const value = scope.aggregate(node.index);
+      return Number.isNaN(value) ? null : value;
+    }
+
+    case 'unary': {
+      const operand = evaluate(node.operand, scope);
+      if (node.operator === 'not') return operand === null ? null : !expectBoolean(operand, node.position, 'not');
+      return operand === null ? null : -expectNumber(operand, node.position, '-');
+    }
+
+    case 'binary':
+      return evaluateBinary(node.operator, node.left, node.right, scope, node.position);
+
+    case 'call': {
+      if (node.name === 'if') {
+        const condition = evaluate(node.args[0], scope);
+        if (condition !== null && expectBoolean(condition, node.position, 'if')) return evaluate(node.args[1], scope);
+        return node.args[2] ? evaluate(node.args[2], scope) : null;
+      }
+      const args = node.args.map(arg => evaluate(arg, scope));
+      return FUNCTIONS[node.name].call(args, node.position);
+    }
+  }
+}
+
+function evaluateBinary(
+  operator: BinaryOperator,
+  leftNode: ExpressionNode,
+  rightNode: ExpressionNode,
+  scope: PivotExpressionScope,
+  position: number
+): PivotExpressionValue {
+  const left = evaluate(leftNode, scope);
+
+  // and / or short-circuit; blanks count as unknown
+  if (operator === 'and' || operator === 'or') {
+    const leftBool = left === null ? null : expectBoolean(left, position, operator);
+    if (operator === 'and' && leftBool === false) return false;
+    if (operator === 'or' && leftBool === true) return true;
+    const right = evaluate(rightNode, scope);
+    const rightBool = right === null ? null : expectBoolean(right, position, operator);
+    if (leftBool === null || rightBool === null) {
+      return operator === 'and' ? (rightBool === false ? false : null) : (rightBool === true ? true : null);
+    }
+    return rightBool;
+  }
+
+  const right = evaluate(rightNode, scope);
+
+  if (operator === '=' || operator === '!=') {
+    const equal = left === null || right === null ? left === right : compare(left, right, operator, position) === 0;
+    return operator === '=' ? equal : !equal;
+  }
+
+  // Arithmetic and ordering on a blank value give a blank result
+  if (left === null || right === null) return null;
+
+  switch (operator) {
+    case '<': return compare(left, right, operator, position) < 0;
+    case '<=': return compare(left, right, operator, position) <= 0;
+    case '>': return compare(left, right, operator, position) > 0;
+    case '>=': return compare(left, right, operator, position) >= 0;
+  }
+
+  // date - date gives the difference in days
+  if (operator === '-' && left instanceof Date && right instanceof Date) {
+    return (left.getTime() - right.getTime()) / DAY_MS;
+  }
+
+  const a = expectNumber(left, position, operator, right);
+  const b = expectNumber(right, position, operator, left);
+  switch (operator) {
+    case '+': return a + b;
+    case '-': return a - b;
+    case '*': return a * b;
+    // Division by zero has no meaningful value and shows as blank
+    case '/': return b === 0 ? null : a / b;
+    case '%': return b === 0 ? null : a % b;
+  }
+}
+
+function compare(left: PivotExpressionValue, right: PivotExpressionValue, operator: string, position: number): number {
+  if (typeof left === 'number' && typeof right === 'number') return left - right;
+  if (typeof left === 'string' && typeof right === 'string') return left.localeCompare(right);
+  if (typeof left === 'boolean' && typeof right === 'boolean') return Number(left) - Number(right);
+  if (left instanceof Date && right instanceof Date) return left.getTime() - right.getTime();
+  throw typeMismatch(operator, position, left, right);
+}
+
+function toExpressionValue(value: unknown): PivotExpressionValue {
+  if (value === undefined || value === null || value === '') return null;
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  if (typeof value === 'string' || typeof value === 'boolean' || value instanceof Date) return value;
+  if (isRange(value) && value.from === null && value.to === null) return null;
+  // Lists and ranges are compared by their display text
+  return formatGroupValue(value);
+}
+
+function expectNumber(value: PivotExpressionValue, position: number, operator: string, other?: PivotExpressionValue): number {
+  if (typeof value === 'number') return value;
+  throw typeMismatch(operator, position, value, other);
+}
+
+function expectBoolean(value: PivotExpressionValue, position: number, operator: string): boolean {
+  if (typeof value === 'boolean') return value;
+  throw new PivotExpressionError(`"${operator}" needs true or false, got ${describe(value)}`, position);
+}
+
+function expectText(value: PivotExpressionValue, position: number, name: string): string {
+  if (typeof value === 'string') return value;
+  throw new PivotExpressionError(`${name}() needs text, got ${describe(value)}`, position);
+}
+
+function mapNumber(
+  value: PivotExpressionValue,
+  position: number,
+  name: string,
+  fn: (x: number) => number
+): PivotExpressionValue {
+  if (value === null) return null;
+  if (typeof value !== 'number') throw new PivotExpressionError(`${name}() needs a number, got ${describe(value)}`, position);
+  return fn(value);
+}
+
+function reduceNumbers(
+  values: PivotExpressionValue[],
+  position: number,
+  name: string,
+  fn: (...xs: number[]) => number
+): PivotExpressionValue {
+  const present = values.filter(value => value !== null);
+  if (present.length === 0) return null;
+  return fn(...present.map(value => {
+    if (typeof value !== 'number') throw new PivotExpressionError(`${name}() needs numbers, got ${describe(value)}`, position);
+    return value;
+  }));
+}
+
+function typeMismatch(
+  operator: string,
+  position: number,
+  left: PivotExpressionValue | undefined,
+  right: PivotExpressionValue | undefined
+): PivotExpressionError {
+  const operands = right === undefined ? describe(left ?? null) : `${describe(left ?? null)} and ${describe(right)}`;
+  return new PivotExpressionError(`Cannot apply "${operator}" to ${operands}`, position);
+}
+
+function describe(value: PivotExpressionValue): string {
+  if (value === null) return 'blank';
+  if (typeof value === 'number') return `number ${value}`;
+  if (typeof value === 'boolean') return `boolean ${value}`;
+  if (value instanceof Date) return `date ${formatGroupValue(value)}`;
+  return `text "${value}"`;
+}
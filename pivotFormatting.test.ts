@@ -0,0 +1,41 @@
+import { describe, expect, it, vi } from 'vitest';
+import { getCellFormat, getScaleColors, PivotConditionalFormat } from './pivotFormatting';
+
+const range = { min: 0, max: 100 };
+
+describe('color scales', () => {
+  it('mixes hex and rgb() colors', () => {
+    const formats: PivotConditionalFormat[] = [{ type: 'colorScale', colors: ['#000000', 'rgb(255, 255, 255)'] }];
+    expect(getCellFormat(0, 0, formats, [range])?.backgroundColor).toBe('#000000');
+    expect(getCellFormat(50, 0, formats, [range])?.backgroundColor).toBe('#808080');
+    expect(getCellFormat(100, 0, formats, [range])).toEqual({ backgroundColor: '#ffffff', color: '#323338' });
+  });
+
+  it('falls back to the theme scale for colors it cannot mix instead of throwing', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    // Named colors need a browser canvas to resolve, which this environment does not have
+    const format: PivotConditionalFormat = { type: 'colorScale', colors: ['white', 'not a color'] };
+    const themeScale = getScaleColors({ type: 'colorScale' }, 'dark');
+
+    expect(getScaleColors(format, 'dark')).toEqual(themeScale);
+    expect(() => getCellFormat(40, 0, [format], [range], 'dark')).not.toThrow();
+    expect(getCellFormat(0, 0, [format], [range], 'dark')?.backgroundColor).toBe(themeScale[0]);
+    expect(warn).toHaveBeenCalledTimes(1);
+    warn.mockRestore();
+  });
+
+  it('keeps diverging scales diverging when falling back', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const format: PivotConditionalFormat = { type: 'colorScale', colors: ['red', 'hsl(0 0% 100%)', 'green'] };
+    expect(getScaleColors(format, 'light')).toEqual(getScaleColors({ type: 'colorScale', midpoint: 0 }, 'light'));
+    warn.mockRestore();
+  });
+});
+
+describe('threshold rules', () => {
+  it('pick readable text on rgb() backgrounds', () => {
+    const formats: PivotConditionalFormat[] = [{ type: 'threshold', rules: [{ operator: '>', value: 10, color: 'rgb(0, 0, 0)' }] }];
+    expect(getCellFormat(20, 0, formats, [range])).toEqual({ backgroundColor: 'rgb(0, 0, 0)', color: '#ffffff' });
+    expect(getCellFormat(5, 0, formats, [range])).toBeNull();
+  });
+});
@@ -0,0 +1,335 @@
+import { PivotComparison, PivotResult, compareValues, getPivotCellValue } from './pivot';
+import { PivotLayout } from './pivotLayout';
+
+// monday's themes; night is the one monday calls "black"
+export type PivotTheme = 'light' | 'dark' | 'night';
+
+export type PivotIconSet = 'arrows' | 'trafficLights';
+
+export interface PivotThresholdRule {
+  operator: PivotComparison;
+  value: number;
+  color: string;
+}
+
+// A conditional format for the value cells of one measure, or of every measure when `measure` is unset.
+// Scales, bars and icons are relative to the visible leaf cells; totals are left out unless `includeTotals`.
+export type PivotConditionalFormat = { measure?: number; includeTotals?: boolean } & (
+  // Background from the lowest to the highest value; a third color and `midpoint` give a diverging scale
+  | { type: 'colorScale'; colors?: [string, string] | [string, string, string]; midpoint?: number }
+  | { type: 'dataBar'; color?: string; negativeColor?: string }
+  // The first matching rule colors the cell
+  | { type: 'threshold'; rules: PivotThresholdRule[]; style?: 'background' | 'text' }
+  // Low, middle and high icons split at percentages of the visible range
+  | { type: 'iconSet'; icons?: PivotIconSet; thresholds?: [number, number] }
+);
+
+export interface PivotFormatRange {
+  min: number;
+  max: number;
+}
+
+// Percentages of the cell width
+export interface PivotDataBar {
+  start: number;
+  width: number;
+  color: string;
+}
+
+export interface PivotCellIcon {
+  symbol: string;
+  color: string;
+  label: string;
+}
+
+export interface PivotCellFormat {
+  backgroundColor?: string;
+  color?: string;
+  bar?: PivotDataBar;
+  icon?: PivotCellIcon;
+}
+
+interface ThemeColors {
+  text: string;
+  scale: [string, string];
+  divergingScale: [string, string, string];
+  bar: string;
+  negativeBar: string;
+  // Low, middle, high
+  icons: [string, string, string];
+}
+
+// Defaults keep at least 3:1 contrast for icons and bars against each theme's cell background
+const THEME_COLORS: Record<PivotTheme, ThemeColors> = {
+  light: {
+    text: '#323338',
+    scale: ['#e5f4ff', '#0060b9'],
+    divergingScale: ['#d83a52', '#f6f7fb', '#00854d'],
+    bar: 'rgba(0, 115, 234, 0.3)',
+    negativeBar: 'rgba(216, 58, 82, 0.3)',
+    icons: ['#d83a52', '#b36b00', '#007a47']
+  },
+  dark: {
+    text: '#d5d8df',
+    scale: ['#1f2a4d', '#579bfc'],
+    divergingScale: ['#e2445c', '#30324e', '#00c875'],
+    bar: 'rgba(87, 155, 252, 0.45)',
+    negativeBar: 'rgba(255, 122, 138, 0.45)',
+    icons: ['#ff7a8a', '#ffcb00', '#33d391']
+  },
+  night: {
+    text: '#eeeeee',
+    scale: ['#1c2633', '#579bfc'],
+    divergingScale: ['#e2445c', '#2c2c2c', '#00c875'],
+    bar: 'rgba(87, 155, 252, 0.45)',
+    negativeBar: 'rgba(255, 122, 138, 0.45)',
+    icons: ['#ff7a8a', '#ffcb00', '#33d391']
+  }
+};
+
+const ICON_SYMBOLS: Record<PivotIconSet, [string, string, string]> = {
+  arrows: ['▼', '▶', '▲'],
+  trafficLights: ['●', '●', '●']
+};
+
+const ICON_LABELS = ['Low', 'Medium', 'High'];
+
+const parsedColors = new Map<string, number[] | null>();
+const warnedColors = new Set<string>();
+const DEFAULT_ICON_THRESHOLDS: [number, number] = [33, 67];
+
+export function appliesToMeasure(format: PivotConditionalFormat, measure: number): boolean {
+  return format.measure === undefined || format.measure === measure;
+}
+
+// Lowest and highest value each format sees among the rendered cells, or null when it sees none
+export function getFormatRanges(
+  result: PivotResult,
+  layout: PivotLayout,
+  formats: PivotConditionalFormat[]
+): (PivotFormatRange | null)[] {
+  return formats.map(format => {
+    let min = Infinity;
+    let max = -Infinity;
+    for (const row of layout.rows) {
+      if (!isFormattedEntry(format, row.entry.type, result.rowFields.length)) continue;
+      for (const column of layout.columns) {
+        if (!appliesToMeasure(format, column.measure)) continue;
+        if (!isFormattedEntry(format, column.type, result.columnFields.length)) continue;
+        const value = getPivotCellValue(result, row.entry.key, column.key, column.measure);
+        if (Number.isNaN(value)) continue;
+        min = Math.min(min, value);
+        max = Math.max(max, value);
+      }
+    }
+    return min <= max ? { min, max } : null;
+  });
+}
+
+// Whether a row or column entry gets formatted; an axis without fields only has its total
+export function isFormattedEntry(
+  format: PivotConditionalFormat,
+  type: 'leaf' | 'subtotal' | 'total',
+  axisFields: number
+): boolean {
+  return type === 'leaf' || !!format.includeTotals || axisFields === 0;
+}
+
+// Combined look of one cell; earlier formats win when two set the same property
+export function getCellFormat(
+  value: number,
+  measure: number,
+  formats: PivotConditionalFormat[],
+  ranges: (PivotFormatRange | null)[],
+  theme: PivotTheme = 'light'
+): PivotCellFormat | null {
+  if (Number.isNaN(value)) return null;
+  const colors = THEME_COLORS[theme];
+  const cellFormat: PivotCellFormat = {};
+
+  formats.forEach((format, index) => {
+    const range = ranges[index];
+    if (!appliesToMeasure(format, measure)) return;
+
+    switch (format.type) {
+      case 'colorScale': {
+        if (!range || cellFormat.backgroundColor) return;
+        const background = getScaleColor(value, range, format, getScaleColors(format, theme));
+        cellFormat.backgroundColor = background;
+        cellFormat.color = getReadableTextColor(background);
+        return;
+      }
+
+      case 'dataBar':
+        if (!range || cellFormat.bar) return;
+        cellFormat.bar = getDataBar(value, range, value < 0
+          ? format.negativeColor || colors.negativeBar
+          : format.color || colors.bar);
+        return;
+
+      case 'threshold': {
+        const rule = format.rules.find(candidate => compareValues(value, candidate.operator, candidate.value));
+        if (!rule) return;
+        if (format.style === 'text') {
+          cellFormat.color = cellFormat.color || rule.color;
+        } else if (!cellFormat.backgroundColor) {
+          cellFormat.backgroundColor = rule.color;
+          cellFormat.color = getReadableTextColor(rule.color) || colors.text;
+        }
+        return;
+      }
+
+      case 'iconSet': {
+        if (!range || cellFormat.icon) return;
+        const level = getIconLevel(value, range, format.thresholds || DEFAULT_ICON_THRESHOLDS);
+        cellFormat.icon = getIconSet(format, theme)[level];
+        return;
+      }
+    }
+  });
+
+  return Object.keys(cellFormat).length > 0 ? cellFormat : null;
+}
+
+// Colors a legend draws for a color scale, low to high. Scales with a color that cannot be mixed fall
+// back to the theme's scale rather than failing the whole table.
+export function getScaleColors(format: PivotConditionalFormat & { type: 'colorScale' }, theme: PivotTheme): string[] {
+  const colors = THEME_COLORS[theme];
+  const fallback = format.midpoint !== undefined || (format.colors && format.colors.length === 3)
+    ? colors.divergingScale
+    : colors.scale;
+  if (!format.colors) return fallback;
+
+  const invalid = format.colors.find(color => !parseColor(color));
+  if (invalid === undefined) return format.colors;
+  if (!warnedColors.has(invalid)) {
+    warnedColors.add(invalid);
+    console.warn(`⚠️ Color scale color "${invalid}" is not a CSS color, using the theme's scale`);
+  }
+  return fallback;
+}
+
+export function getIconSet(
+  format: PivotConditionalFormat & { type: 'iconSet' },
+  theme: PivotTheme
+): PivotCellIcon[] {
+  const symbols = ICON_SYMBOLS[format.icons || 'arrows'];
+  return symbols.map((symbol, level) => ({ symbol, color: THEME_COLORS[theme].icons[level], label: ICON_LABELS[level] }));
+}
+
+// Values where an icon set switches from low to medium and from medium to high
+export function getIconBoundaries(
+  format: PivotConditionalFormat & { type: 'iconSet' },
+  range: PivotFormatRange
+): [number, number] {
+  const [low, high] = format.thresholds || DEFAULT_ICON_THRESHOLDS;
+  const span = range.max - range.min;
+  return [range.min + (span * low) / 100, range.min + (span * high) / 100];
+}
+
+function getScaleColor(
+  value: number,
+  range: PivotFormatRange,
+  format: PivotConditionalFormat & { type: 'colorScale' },
+  stops: string[]
+): string {
+  if (stops.length === 2) {
+    return mixColors(stops[0], stops[1], getPosition(value, range.min, range.max));
+  }
+
+  // Diverging: each half of the range gets its own side of the scale
+  const midpoint = format.midpoint ?? (range.min + range.max) / 2;
+  return value < midpoint
+    ? mixColors(stops[0], stops[1], getPosition(value, range.min, midpoint))
+    : mixColors(stops[1], stops[2], getPosition(value, midpoint, range.max));
+}
+
+// Bars grow from zero, so negative values extend left of the axis and positive ones right of it
+function getDataBar(value: number, range: PivotFormatRange, color: string): PivotDataBar {
+  const low = Math.min(range.min, 0);
+  const high = Math.max(range.max, 0);
+  if (high === low) return { start: 0, width: 0, color };
+  const zero = ((0 - low) / (high - low)) * 100;
+  const end = ((value - low) / (high - low)) * 100;
+  return { start: Math.min(zero, end), width: Math.abs(end - zero), color };
+}
+
+function getIconLevel(value: number, range: PivotFormatRange, thresholds: [number, number]): number {
+  const position = getPosition(value, range.min, range.max) * 100;
+  if (position < thresholds[0]) return 0;
+  return position < thresholds[1] ? 1 : 2;
+}
+
+// 0 at `from`, 1 at `to`; a single-value range sits in the middle
+function getPosition(value: number, from: number, to: number): number {
+  if (to === from) return 0.5;
+  return Math.min(1, Math.max(0, (value - from) / (to - from)));
+}
+
+// Stops come from getScaleColors, which only passes colors parseColor understands
+function mixColors(from: string, to: string, amount: number): string {
+  const start = parseColor(from);
+  const end = parseColor(to);
+  if (!start || !end) return amount < 0.5 ? from : to;
+  const channel = (i: number) => Math.round(start[i] + (end[i] - start[i]) * amount);
+  return `#${[0, 1, 2].map(i => channel(i).toString(16).padStart(2, '0')).join('')}`;
+}
+
+// Dark or white text, whichever contrasts more with the background; undefined for colors parseColor rejects
+function getReadableTextColor(background: string): string | undefined {
+  const rgb = parseColor(background);
+  if (!rgb) return undefined;
+  const luminance = getRelativeLuminance(rgb);
+  const contrastWithWhite = 1.05 / (luminance + 0.05);
+  const contrastWithDark = (luminance + 0.05) / (getRelativeLuminance([0x32, 0x33, 0x38]) + 0.05);
+  return contrastWithWhite > contrastWithDark ? '#ffffff' : '#323338';
+}
+
+// WCAG relative luminance
+function getRelativeLuminance([r, g, b]: number[]): number {
+  const linear = (channel: number) => {
+    const value = channel / 255;
+    return value <= 0.03928 ? value / 12.92 : ((value + 0.055) / 1.055) ** 2.4;
+  };
+  return 0.2126 * linear(r) + 0.7152 * linear(g) + 0.0722 * linear(b);
+}
+
+// Red, green and blue of a CSS color: hex and rgb() here, named and other colors through the browser
+function parseColor(color: string): number[] | null {
+  if (!parsedColors.has(color)) {
+    parsedColors.set(color, parseHexColor(color) || parseRgbColor(color) || resolveCssColor(color));
+  }
+  return parsedColors.get(color) || null;
+}
+
+function parseRgbColor(color: string): number[] | null {
+  const match = /^rgba?\(\s*([\d.]+%?)[\s,]+([\d.]+%?)[\s,]+([\d.]+%?)\s*(?:[,/]\s*[\d.]+%?\s*)?\)$/i.exec(color.trim());
+  if (!match) return null;
+  return match.slice(1, 4).map(channel => {
+    const value = channel.endsWith('%') ? (parseFloat(channel) / 100) * 255 : parseFloat(channel);
+    return Math.round(Math.min(255, Math.max(0, value)));
+  });
+}
+
+// A canvas normalizes any color it accepts to hex or rgba(); it keeps the previous fill for invalid
+// ones, so the color is set over two different fills to tell. Workers and servers have no canvas.
+function resolveCssColor(color: string): number[] | null {
+  if (typeof document === 'undefined') return null;
+  const context = document.createElement('canvas').getContext('2d');
+  if (!context) return null;
+  const normalize = (previous: string) => {
+    context.fillStyle = previous;
+    context.fillStyle = color;
+    return String(context.fillStyle);
+  };
+  const resolved = normalize('#000000');
+  if (resolved !== normalize('#ffffff')) return null;
+  return parseHexColor(resolved) || parseRgbColor(resolved);
+}
+
+function parseHexColor(color: string): number[] | null {
+  const match = /^#([0-9a-f]{3}|[0-9a-f]{6})$/i.exec(color.trim());
+  if (!match) return null;
+  const hex = match[1].length === 3 ? match[1].replace(/./g, digit => digit + digit) : match[1];
+  return [0, 2, 4].map(i => parseInt(hex.slice(i, i + 2), 16));
+}
@@ -0,0 +1,226 @@
+import { PivotHeaderNode, PivotResult } from './pivot';
+
+export type PivotEntryType = 'leaf' | 'subtotal' | 'total';
+
+// One rendered row or column of the grid: a leaf group, a subtotal or the grand total
+export interface PivotAxisEntry {
+  key: string;
+  type: PivotEntryType;
+  depth: number;
+  label: string;
+}
+
+// A grid column: one measure under one column entry
+export interface PivotLayoutColumn extends PivotAxisEntry {
+  measure: number;
+}
+
+export interface PivotHeaderCell {
+  key: string;
+  label: string;
+  type: PivotEntryType | 'measure';
+  rowSpan: number;
+  colSpan: number;
+  // Set on measure sub-column headers
+  measure?: number;
+}
+
+export interface PivotRowLayout {
+  entry: PivotAxisEntry;
+  // Header cells that start on this row, outermost level first
+  headers: PivotHeaderCell[];
+}
+
+export interface PivotLayout {
+  rowLevels: number;
+  columnLevels: number;
+  rows: PivotRowLayout[];
+  columns: PivotLayoutColumn[];
+  columnHeaderRows: PivotHeaderCell[][];
+}
+
+export const TOTAL_LABEL = 'Total';
+
+export function getPivotLayout(result: PivotResult): PivotLayout {
+  return {
+    rowLevels: Math.max(result.rowFields.length, 1),
+    columnLevels: Math.max(result.columnFields.length, 1),
+    rows: layoutRows(result.rowTree, result.rowFields.length),
+    ...layoutColumns(
+      result.columnTree,
+      result.columnFields.length,
+      result.measures.map(measure => measure.label || '')
+    )
+  };
+}
+
+function layoutRows(tree: PivotHeaderNode[], levels: number): PivotRowLayout[] {
+  const totalRow: PivotRowLayout = {
+    entry: { key: '', type: 'total', depth: 0, label: TOTAL_LABEL },
+    headers: [{ key: '', label: TOTAL_LABEL, type: 'total', rowSpan: 1, colSpan: Math.max(levels, 1) }]
+  };
+
+  if (levels === 0) return [totalRow];
+
+  const visit = (nodes: PivotHeaderNode[]): PivotRowLayout[] =>
+    nodes.flatMap(node => {
+      if (node.children.length === 0) {
+        // A leaf above the last level, such as an empty date period, spans the levels below it
+        return [{
+          entry: { key: node.key, type: 'leaf', depth: node.depth, label: node.label },
+          headers: [{ key: node.key, label: node.label, type: 'leaf', rowSpan: 1, colSpan: levels - node.depth }]
+        }];
+      }
+
+      // The parent header spans its children; its subtotal row follows underneath
+      const block = visit(node.children);
+      block[0].headers.unshift({
+        key: node.key,
+        label: node.label,
+        type: 'leaf',
+        rowSpan: block.length,
+        colSpan: 1
+      });
+
+      const subtotalLabel = `${node.label} ${TOTAL_LABEL}`;
+      block.push({
+        entry: { key: node.key, type: 'subtotal', depth: node.depth, label: subtotalLabel },
+        headers: [{
+          key: node.key,
+          label: subtotalLabel,
+          type: 'subtotal',
+          rowSpan: 1,
+          colSpan: levels - node.depth
+        }]
+      });
+      return block;
+    });
+
+  return [...visit(tree), totalRow];
+}
+
+function layoutColumns(
+  tree: PivotHeaderNode[],
+  levels: number,
+  measureLabels: string[]
+): Pick<PivotLayout, 'columns' | 'columnHeaderRows'> {
+  const totalEntry: PivotAxisEntry = { key: '', type: 'total', depth: 0, label: TOTAL_LABEL };
+  const measureCount = measureLabels.length;
+
+  // Without column fields the measure labels are the only column headers
+  if (levels === 0) {
+    return {
+      columns: expandMeasures([totalEntry], measureCount),
+      columnHeaderRows: [measureLabels.map((label, measure) => measureHeader('', label, measure))]
+    };
+  }
+
+  const columns: PivotAxisEntry[] = [];
+  const columnHeaderRows: PivotHeaderCell[][] = Array.from({ length: levels }, () => []);
+  const totalHeader = (rowSpan: number): PivotHeaderCell => ({
+    key: '',
+    label: TOTAL_LABEL,
+    type: 'total',
+    rowSpan,
+    colSpan: measureCount
+  });
+
+  const visit = (nodes: PivotHeaderNode[]) => {
+    for (const node of nodes) {
+      if (node.children.length === 0) {
+        columns.push({ key: node.key, type: 'leaf', depth: node.depth, label: node.label });
+        columnHeaderRows[node.depth].push({
+          key: node.key,
+          label: node.label,
+          type: 'leaf',
+          rowSpan: levels - node.depth,
+          colSpan: measureCount
+        });
+        continue;
+      }
+
+      // Children first so the parent knows how many columns it spans
+      const start = columns.length;
+      visit(node.children);
+      columnHeaderRows[node.depth].push({
+        key: node.key,
+        label: node.label,
+        type: 'leaf',
+        rowSpan: 1,
+        colSpan: (columns.length - start) * measureCount
+      });
+
+      const subtotalLabel = `${node.label} ${TOTAL_LABEL}`;
+      columns.push({ key: node.key, type: 'subtotal', depth: node.depth, label: subtotalLabel });
+      columnHeaderRows[node.depth].push({
+        key: node.key,
+        label: subtotalLabel,
+        type: 'subtotal',
+        rowSpan: levels - node.depth,
+        colSpan: measureCount
+      });
+    }
+  };
+
+  visit(tree);
+  columns.push(totalEntry);
+  columnHeaderRows[0].push(totalHeader(levels));
+
+  // Several measures get their own header row of sub-columns under every column entry
+  if (measureCount > 1) {
+    columnHeaderRows.push(
+      columns.flatMap(column =>
+        measureLabels.map((label, measure) => measureHeader(column.key, label, measure))
+      )
+    );
+  }
+
+  return { columns: expandMeasures(columns, measureCount), columnHeaderRows };
+}
+
+function expandMeasures(entries: PivotAxisEntry[], measureCount: number): PivotLayoutColumn[] {
+  return entries.flatMap(entry =>
+    Array.from({ length: measureCount }, (_, measure) => ({ ...entry, measure }))
+  );
+}
+
+function measureHeader(key: string, label: string, measure: number): PivotHeaderCell {
+  return { key, label, type: 'measure', rowSpan: 1, colSpan: 1, measure };
+}
+
+// A header cell with the grid slot it starts in
+export interface PivotPlacedHeader extends PivotHeaderCell {
+  row: number;
+  column: number;
+}
+
+// Row headers by body row and row level; a row's headers fill its last levels
+export function placeRowHeaders(layout: PivotLayout): PivotPlacedHeader[] {
+  return layout.rows.flatMap((row, index) => {
+    let level = layout.rowLevels - row.headers.reduce((sum, header) => sum + header.colSpan, 0);
+    return row.headers.map(header => {
+      const placed = { ...header, row: index, column: level };
+      level += header.colSpan;
+      return placed;
+    });
+  });
+}
+
+// Column headers by header level and grid column, skipping slots taken by taller headers above
+export function placeColumnHeaders(layout: PivotLayout): PivotPlacedHeader[] {
+  const levels = layout.columnHeaderRows.length;
+  const taken = Array.from({ length: levels }, () => new Array<boolean>(layout.columns.length).fill(false));
+
+  return layout.columnHeaderRows.flatMap((headerRow, level) => {
+    let column = 0;
+    return headerRow.map(header => {
+      while (taken[level][column]) column++;
+      for (let r = level; r < Math.min(levels, level + header.rowSpan); r++) {
+        for (let c = column; c < column + header.colSpan; c++) taken[r][c] = true;
+      }
+      const placed = { ...header, row: level, column };
+      column += header.colSpan;
+      return placed;
+    });
+  });
+}
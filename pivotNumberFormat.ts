@@ -0,0 +1,103 @@
+import type { PivotNumberFormat } from './pivot';
+
+const COMPACT_UNITS: [number, string][] = [[1e12, 'T'], [1e9, 'B'], [1e6, 'M'], [1e3, 'K']];
+
+const formatters = new Map<string, Intl.NumberFormat>();
+
+// Display text in the given locale, or the runtime's default locale when none is given
+export function formatNumber(value: number, format: PivotNumberFormat = {}, locale?: string): string {
+  const parenthesize = format.negative === 'parentheses' && value < 0;
+  const text = `${format.prefix || ''}${getFormatter(value, format, locale).format(parenthesize ? -value : value)}${format.suffix || ''}`;
+  return parenthesize ? `(${text})` : text;
+}
+
+// Excel number format code for the same display, e.g. "$"#,##0.00;("$"#,##0.00)
+export function getExcelNumberFormat(value: number, format: PivotNumberFormat = {}, locale?: string): string {
+  const decimals = getDecimals(value, format, locale);
+  let code = `#,##0${decimals > 0 ? `.${'0'.repeat(decimals)}` : ''}`;
+
+  if (format.style === 'percent') {
+    code += '%';
+  } else if (format.compact) {
+    // Each trailing comma scales by a thousand, so pick the unit for this cell's magnitude
+    const index = COMPACT_UNITS.findIndex(([unit]) => Math.abs(value) >= unit);
+    if (index !== -1) {
+      const [unit, suffix] = COMPACT_UNITS[index];
+      code = `0${decimals > 0 ? `.${'0'.repeat(decimals)}` : ''}${','.repeat(Math.log10(unit) / 3)}${quoteExcelText(suffix)}`;
+    }
+  }
+
+  if (format.style === 'currency') {
+    const { symbol, before } = getCurrencySymbol(format.currency || 'USD', locale);
+    code = before ? `${quoteExcelText(symbol)}${code}` : `${code}${quoteExcelText(` ${symbol}`)}`;
+  }
+
+  if (format.prefix) code = `${quoteExcelText(format.prefix)}${code}`;
+  if (format.suffix) code = `${code}${quoteExcelText(format.suffix)}`;
+  return format.negative === 'parentheses' ? `${code};(${code})` : code;
+}
+
+function getFormatter(value: number, format: PivotNumberFormat, locale: string | undefined): Intl.NumberFormat {
+  const options: Intl.NumberFormatOptions = {};
+  if (format.style === 'percent') options.style = 'percent';
+  if (format.style === 'currency') {
+    options.style = 'currency';
+    options.currency = format.currency || 'USD';
+  }
+  if (format.compact) {
+    options.notation = 'compact';
+    options.compactDisplay = 'short';
+  }
+
+  // Compact numbers drop trailing zeros, so "1.2M" rather than "1.20M"
+  const decimals = getDecimals(value, format, locale);
+  options.maximumFractionDigits = decimals;
+  options.minimumFractionDigits = format.compact ? 0 : decimals;
+
+  const key = `${locale || ''}|${JSON.stringify(options)}`;
+  let formatter = formatters.get(key);
+  if (!formatter) {
+    try {
+      formatter = new Intl.NumberFormat(locale, options);
+    } catch (error) {
+      // An unknown currency code or locale falls back to plain numbers rather than breaking the table
+      console.warn(`⚠️ Unsupported number format ${key}:`, error);
+      formatter = new Intl.NumberFormat(undefined, { maximumFractionDigits: decimals });
+    }
+    formatters.set(key, formatter);
+  }
+  return formatter;
+}
+
+// Explicit decimals win; otherwise percentages get one, currencies their usual minor units,
+// compact numbers one and plain numbers none for integers and two for the rest
+function getDecimals(value: number, format: PivotNumberFormat, locale: string | undefined): number {
+  if (format.decimals !== undefined) return Math.max(0, Math.min(20, Math.floor(format.decimals)));
+  if (format.style === 'percent') return 1;
+  if (format.compact) return 1;
+  if (format.style === 'currency') {
+    try {
+      return new Intl.NumberFormat(locale, { style: 'currency', currency: format.currency || 'USD' })
+        .resolvedOptions().maximumFractionDigits ?? 2;
+    } catch {
+      return 2;
+    }
+  }
+  return Number.isInteger(value) ? 0 : 2;
+}
+
+// The symbol a locale uses for a currency and whether it goes before the number
+function getCurrencySymbol(currency: string, locale: string | undefined): { symbol: string; before: boolean } {
+  try {
+    const parts = new Intl.NumberFormat(locale, { style: 'currency', currency }).formatToParts(1);
+    const index = parts.findIndex(part => part.type === 'currency');
+    const integer = parts.findIndex(part => part.type === 'integer');
+    return { symbol: parts[index].value, before: index < integer };
+  } catch {
+    return { symbol: currency, before: true };
+  }
+}
+
+function quoteExcelText(text: string): string {
+  return `"${text.replace(/"/g, '""')}"`;
+}
@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import {
+  createLocalLayoutStorage,
+  getLayoutStorageKey,
+  loadSavedLayouts,
+  parseSavedLayouts,
+  PivotSavedLayout,
+  PivotSavedLayoutsMigration,
+  SAVED_LAYOUTS_VERSION,
+  storeSavedLayouts,
+  upsertSavedLayout
+} from './savedLayouts';
+
+const layout = (name: string): PivotSavedLayout => ({
+  name,
+  config: { rows: ['owner'], columns: [], values: ['hours'], aggregation: 'sum' },
+  savedAt: '2024-03-01T00:00:00.000Z'
+});
+
+describe('parseSavedLayouts', () => {
+  it('reads documents from before versioning and drops layouts it cannot use', () => {
+    const text = JSON.stringify({ layouts: [layout('Hours'), { name: 'Broken', config: { rows: [] } }, null], active: 'Broken' });
+    expect(parseSavedLayouts(text)).toEqual({ version: SAVED_LAYOUTS_VERSION, layouts: [layout('Hours')], active: undefined });
+  });
+
+  it('keeps the active layout when it is still there', () => {
+    const text = JSON.stringify({ version: 1, layouts: [layout('Hours')], active: 'Hours' });
+    expect(parseSavedLayouts(text).active).toBe('Hours');
+  });
+
+  it('rejects documents it does not recognize or that a newer version wrote', () => {
+    expect(() => parseSavedLayouts('{"layouts":{}}')).toThrow('Saved layouts are not in a recognized format');
+    expect(() => parseSavedLayouts('null')).toThrow('Saved layouts are not in a recognized format');
+    expect(() => parseSavedLayouts('{')).toThrow(SyntaxError);
+    expect(() => parseSavedLayouts(JSON.stringify({ version: SAVED_LAYOUTS_VERSION + 1, layouts: [] })))
+      .toThrow(`Saved layouts were written by a newer version (${SAVED_LAYOUTS_VERSION + 1}) of the pivot view`);
+  });
+
+  it('runs each migration from the stored version up to the current one', () => {
+    // A made-up history: version 1 called the name `title`, version 2 renamed it and version 3 added `savedAt`
+    const migrations: Record<number, PivotSavedLayoutsMigration> = {
+      1: document => ({
+        ...document,
+        version: 2,
+        layouts: document.layouts.map(entry => {
+          const { title, ...rest } = entry as { title: string };
+          return { ...rest, name: title };
+        })
+      }),
+      2: document => ({
+        ...document,
+        version: 3,
+        layouts: document.layouts.map(entry => ({ ...(entry as object), savedAt: '2024-03-01T00:00:00.000Z' }))
+      })
+    };
+    const { name, savedAt, ...rest } = layout('Hours');
+    const text = JSON.stringify({ version: 1, layouts: [{ ...rest, title: name }], active: 'Hours' });
+
+    expect(parseSavedLayouts(text, { version: 2, migrations })).toEqual({
+      version: 2,
+      layouts: [{ ...rest, name }],
+      active: 'Hours'
+    });
+    expect(parseSavedLayouts(text, { version: 3, migrations })).toEqual({ version: 3, layouts: [{ ...rest, name, savedAt }], active: 'Hours' });
+    expect(() => parseSavedLayouts(text, { version: 4, migrations })).toThrow('No migration for saved layouts version 3');
+  });
+});
+
+describe('saved layout storage', () => {
+  it('round-trips layouts through storage under a key per board view', async () => {
+    const values = new Map<string, string>();
+    const storage = createLocalLayoutStorage({
+      getItem: (key: string) => values.get(key) ?? null,
+      setItem: (key: string, value: string) => {
+        values.set(key, value);
+      }
+    } as unknown as Storage);
+    const key = getLayoutStorageKey([11, 22], 5);
+    expect(key).toBe('pivot-layouts:11+22:5');
+    expect(getLayoutStorageKey()).toBe('pivot-layouts:local:default');
+
+    expect(await loadSavedLayouts(storage, key)).toEqual({ version: SAVED_LAYOUTS_VERSION, layouts: [] });
+    const layouts = upsertSavedLayout(upsertSavedLayout([layout('Zeta')], layout('Alpha')), { ...layout('Zeta'), savedAt: 'later' });
+    expect(layouts.map(entry => [entry.name, entry.savedAt])).toEqual([['Alpha', layout('Alpha').savedAt], ['Zeta', 'later']]);
+
+    await storeSavedLayouts(storage, key, layouts, 'Zeta');
+    expect(await loadSavedLayouts(storage, key)).toEqual({ version: SAVED_LAYOUTS_VERSION, layouts, active: 'Zeta' });
+  });
+});
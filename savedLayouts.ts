@@ -0,0 +1,161 @@
+import type { PivotConfig } from './pivot';
+import type { PivotConditionalFormat } from './pivotFormatting';
+import type { PivotColumnSort } from './PivotTable';
+
+// A named view: the pivot config (measures carry their number formats) plus table display state
+export interface PivotSavedLayout {
+  name: string;
+  config: PivotConfig;
+  conditionalFormats?: PivotConditionalFormat[];
+  columnSort?: PivotColumnSort | null;
+  // ISO timestamp
+  savedAt: string;
+}
+
+// What is written to storage; `version` is the shape of everything inside it
+export interface PivotSavedLayoutsDocument {
+  version: number;
+  layouts: PivotSavedLayout[];
+  // Name of the layout last applied, restored on the next load
+  active?: string;
+}
+
+// A stored document of any version, before migration; only the envelope is the same in all of them
+export interface PivotStoredLayoutsDocument {
+  // Missing in documents from before versioning
+  version?: number;
+  layouts: unknown[];
+  active?: unknown;
+}
+
+// Upgrades a document by one version
+export type PivotSavedLayoutsMigration = (document: PivotStoredLayoutsDocument) => PivotStoredLayoutsDocument;
+
+export interface ParseSavedLayoutsOptions {
+  // Version to migrate to, SAVED_LAYOUTS_VERSION by default
+  version?: number;
+  // Migrations by the version they upgrade from, the built-in ones by default
+  migrations?: Record<number, PivotSavedLayoutsMigration>;
+}
+
+// Key-value storage for saved layouts: monday instance storage or the browser's localStorage
+export interface PivotLayoutStorage {
+  readonly name: string;
+  getItem(key: string): Promise<string | null>;
+  setItem(key: string, value: string): Promise<void>;
+}
+
+export const SAVED_LAYOUTS_VERSION = 1;
+
+// MIGRATIONS[n] upgrades a version n document to version n + 1. Add one whenever the saved shape
+// changes, e.g. a renamed config field, and bump SAVED_LAYOUTS_VERSION.
+const MIGRATIONS: Record<number, PivotSavedLayoutsMigration> = {};
+
+// One key per board view; monday instance storage is already per view, localStorage is shared
+export function getLayoutStorageKey(boardId?: number | number[] | null, instanceId?: number | string | null): string {
+  const boards = Array.isArray(boardId) ? boardId.join('+') || null : boardId;
+  return ['pivot-layouts', boards ?? 'local', instanceId ?? 'default'].join(':');
+}
+
+// monday storage inside monday, localStorage elsewhere
+export function resolveLayoutStorage(sdk?: any): PivotLayoutStorage {
+  const monday = sdk || (typeof window !== 'undefined' ? (window as any).monday : undefined);
+  if (monday && monday.storage && monday.storage.instance) {
+    return createMondayLayoutStorage(monday);
+  }
+  return createLocalLayoutStorage();
+}
+
+export function createMondayLayoutStorage(sdk?: any): PivotLayoutStorage {
+  const storage = () => (sdk || (window as any).monday).storage.instance;
+
+  return {
+    name: 'monday-storage',
+    async getItem(key) {
+      const response = await storage().getItem(key);
+      const value = response && response.data ? response.data.value : null;
+      return typeof value === 'string' ? value : null;
+    },
+    async setItem(key, value) {
+      const response = await storage().setItem(key, value);
+      if (response && response.data && response.data.success === false) {
+        throw new Error(response.data.error || 'monday storage rejected the saved layouts');
+      }
+    }
+  };
+}
+
+export function createLocalLayoutStorage(storage?: Storage): PivotLayoutStorage {
+  const local = () => storage || window.localStorage;
+
+  return {
+    name: 'local-storage',
+    async getItem(key) {
+      return local().getItem(key);
+    },
+    async setItem(key, value) {
+      local().setItem(key, value);
+    }
+  };
+}
+
+export async function loadSavedLayouts(storage: PivotLayoutStorage, key: string): Promise<PivotSavedLayoutsDocument> {
+  const text = await storage.getItem(key);
+  if (!text) return { version: SAVED_LAYOUTS_VERSION, layouts: [] };
+  return parseSavedLayouts(text);
+}
+
+export async function storeSavedLayouts(
+  storage: PivotLayoutStorage,
+  key: string,
+  layouts: PivotSavedLayout[],
+  active?: string
+): Promise<void> {
+  const document: PivotSavedLayoutsDocument = { version: SAVED_LAYOUTS_VERSION, layouts, active };
+  await storage.setItem(key, JSON.stringify(document));
+}
+
+// Reads a stored document and migrates it to the current version
+export function parseSavedLayouts(text: string, options: ParseSavedLayoutsOptions = {}): PivotSavedLayoutsDocument {
+  const { version: target = SAVED_LAYOUTS_VERSION, migrations = MIGRATIONS } = options;
+  const parsed: unknown = JSON.parse(text);
+  if (!isStoredDocument(parsed)) {
+    throw new Error('Saved layouts are not in a recognized format');
+  }
+  let document = parsed;
+
+  // Documents from before versioning have the first shape
+  let version = typeof document.version === 'number' ? document.version : 1;
+  if (version > target) {
+    throw new Error(`Saved layouts were written by a newer version (${version}) of the pivot view`);
+  }
+  while (version < target) {
+    const migrate = migrations[version];
+    if (!migrate) throw new Error(`No migration for saved layouts version ${version}`);
+    document = migrate(document);
+    version++;
+  }
+
+  const layouts: PivotSavedLayout[] = document.layouts.filter(isSavedLayout);
+  const active = layouts.find(layout => layout.name === document.active);
+  return { version, layouts, active: active && active.name };
+}
+
+// Adds the layout, replacing any with the same name, and keeps the list in name order
+export function upsertSavedLayout(layouts: PivotSavedLayout[], layout: PivotSavedLayout): PivotSavedLayout[] {
+  return [...layouts.filter(existing => existing.name !== layout.name), layout]
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+function isStoredDocument(value: unknown): value is PivotStoredLayoutsDocument {
+  return !!value && typeof value === 'object' && Array.isArray((value as PivotStoredLayoutsDocument).layouts);
+}
+
+function isSavedLayout(layout: any): layout is PivotSavedLayout {
+  return !!layout &&
+    typeof layout.name === 'string' &&
+    !!layout.config &&
+    Array.isArray(layout.config.rows) &&
+    Array.isArray(layout.config.columns) &&
+    Array.isArray(layout.config.values);
+}
@@ -1,6 +1,34 @@
-import React, { useState, useEffect } from 'react';
-import PivotTable from '../PivotTable';
-import { PivotData, PivotConfig } from '../pivot';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import PivotTable, { PivotColumnSort } from '../PivotTable';
+import PivotChart from '../PivotChart';
+import PivotFileImport from '../PivotFileImport';
+import PivotFieldList from '../PivotFieldList';
+import PivotLayoutSwitcher from '../PivotLayoutSwitcher';
+import { PivotImportResult } from '../fileImport';
+import { PivotConditionalFormat, PivotTheme } from '../pivotFormatting';
+import { PivotChartType } from '../pivotChartData';
+import { usePivotResult } from '../usePivotResult';
+import { FetchBoardItemsOptions } from '../mondayFetch';
+import { PivotLayoutStorage, PivotSavedLayout, getLayoutStorageKey, resolveLayoutStorage } from '../savedLayouts';
+import {
+  PivotDataChange,
+  applyPivotDataChange,
+  createMondaySdkSource,
+  getMondayBoardIds,
+  getMondayItemUrl,
+  getMondayLocale,
+  getMondayTheme,
+  getSourceBoardId,
+  isInsideMondayPlatform,
+  isMondaySDKAvailable,
+  parseBoardIds
+} from '../dataSources';
+import {
+  PivotData,
+  PivotConfig,
+  PivotShowValuesAs,
+  inferFieldSchema
+} from '../pivot';
 
 // Sample data for demonstration
 const sampleData: PivotData[] = [
@@ -14,121 +42,200 @@ const sampleData: PivotData[] = [
   { name: 'Project H', status: 'Completed', owner: 'Bob', budget: 18000, quarter: 'Q3' },
 ];
 
+const SHOW_VALUES_AS_OPTIONS: Record<string, { label: string; showAs?: PivotShowValuesAs }> = {
+  none: { label: 'No calculation' },
+  percentOfRow: { label: '% of row total', showAs: { type: 'percentOfRow' } },
+  percentOfColumn: { label: '% of column total', showAs: { type: 'percentOfColumn' } },
+  percentOfGrandTotal: { label: '% of grand total', showAs: { type: 'percentOfGrandTotal' } },
+  runningTotal: { label: 'Running total down rows', showAs: { type: 'runningTotal', axis: 'rows' } },
+  rank: { label: 'Rank within column', showAs: { type: 'rank', axis: 'rows' } },
+};
+
+const HIGHLIGHT_OPTIONS: Record<string, { label: string; formats: PivotConditionalFormat[] }> = {
+  none: { label: 'No highlighting', formats: [] },
+  heatmap: { label: 'Heatmap', formats: [{ type: 'colorScale' }] },
+  dataBars: { label: 'Data bars', formats: [{ type: 'dataBar' }] },
+  icons: { label: 'Icons', formats: [{ type: 'iconSet', icons: 'trafficLights' }] },
+};
+
+const VIEW_OPTIONS: Record<'table' | PivotChartType, string> = {
+  table: 'Table',
+  stackedBar: 'Stacked bars',
+  groupedBar: 'Grouped bars',
+  line: 'Line',
+  area: 'Area',
+  pie: 'Pie',
+};
+
+// Outside monday the board comes from the page URL, e.g. ?boardId=123 or ?boardIds=123,456
+const getUrlBoardIds = (): number[] => {
+  const params = new URLSearchParams(window.location.search);
+  return parseBoardIds(params.get('boardIds') || params.get('boardId'));
+};
+
 const App: React.FC = () => {
   const [pivotConfig, setPivotConfig] = useState<PivotConfig>({
     rows: ['status'],
     columns: ['owner'],
     values: ['budget'],
     aggregation: 'sum',
+    measures: [{ field: 'budget', aggregation: 'sum', format: { style: 'currency', currency: 'USD', decimals: 0 } }],
   });
 
   const [data, setData] = useState<PivotData[]>(sampleData);
   const [isLoading, setIsLoading] = useState<boolean>(true);
-  const [dataSource, setDataSource] = useState<'sample' | 'monday'>('sample');
+  const [dataSource, setDataSource] = useState<'sample' | 'monday' | 'file'>('sample');
+  const [loadedItems, setLoadedItems] = useState<number>(0);
+  const [importedFileName, setImportedFileName] = useState<string | null>(null);
+  // The boards the data came from; drill-down items link to their item pages when there is one
+  const [mondayBoardIds, setMondayBoardIds] = useState<number[]>([]);
+  // Ids the board's filter shows; null when the board is unfiltered
+  const [visibleIds, setVisibleIds] = useState<Set<string> | null>(null);
+  const [conditionalFormats, setConditionalFormats] = useState<PivotConditionalFormat[]>([]);
+  const [columnSort, setColumnSort] = useState<PivotColumnSort | null>(null);
+  const [locale, setLocale] = useState<string | undefined>(undefined);
+  const [theme, setTheme] = useState<PivotTheme>('light');
+  const [view, setView] = useState<'table' | PivotChartType>('table');
+  // localStorage until the monday SDK is initialized, then the view's instance storage
+  const [layoutStorage, setLayoutStorage] = useState<PivotLayoutStorage>(() => resolveLayoutStorage());
+  const [layoutKey, setLayoutKey] = useState<string>(getLayoutStorageKey());
+  const fetchAbortRef = useRef<AbortController | null>(null);
 
   // Fetch live data from Monday.com board
   useEffect(() => {
+    // Cancels paging when the view unmounts mid-fetch
+    const abortController = new AbortController();
+    fetchAbortRef.current = abortController;
+    const fetchOptions: FetchBoardItemsOptions = {
+      signal: abortController.signal,
+      onProgress: progress => setLoadedItems(progress.fetched),
+    };
+    let unsubscribe: (() => void) | undefined;
+
     async function fetchData() {
       setIsLoading(true);
       try {
         console.log('🚀 Starting Monday.com data fetch...');
         
-        // Check if we're running inside Monday.com environment
-        const isInsideMondayPlatform = typeof window !== 'undefined' && (
-          window.location.hostname.includes('monday.com') ||
-          window.location.hostname.includes('mondayapps.com') ||
-          window.location.href.includes('monday.com') ||
-          document.referrer.includes('monday.com') ||
-          window.parent !== window // Running in iframe
-        );
+        const insideMondayPlatform = isInsideMondayPlatform();
+        const mondaySDKAvailable = isMondaySDKAvailable();
         
-        // Check if Monday.com SDK is available
-        const isMondaySDKAvailable = typeof window !== 'undefined' && 
-                                   (window as any).monday && 
-                                   typeof (window as any).monday.api === 'function';
-        
-        console.log('🏠 Running inside Monday.com platform:', isInsideMondayPlatform);
-        console.log('🏠 Monday.com SDK available:', isMondaySDKAvailable);
+        console.log('🏠 Running inside Monday.com platform:', insideMondayPlatform);
+        console.log('🏠 Monday.com SDK available:', mondaySDKAvailable);
         console.log('🌐 Current hostname:', window.location.hostname);
         console.log('🌐 Referrer:', document.referrer);
         console.log('🌐 User agent:', navigator.userAgent);
         
-        if (isMondaySDKAvailable) {
+        if (mondaySDKAvailable) {
           // Initialize Monday.com SDK
           await (window as any).monday.initialize({ listen: true });
           console.log('✅ Monday.com SDK initialized');
+          setLayoutStorage(resolveLayoutStorage());
           
           // Get board context from Monday.com
           try {
             const context = await (window as any).monday.get('context');
             console.log('📋 Monday.com context:', context);
+            setLocale(getMondayLocale(context));
+            setTheme(getMondayTheme(context));
+            const contextData = context && context.data ? context.data : context;
             
-            let boardId = 4754725643; // Default fallback
-            if (context && context.boardId) {
-              boardId = parseInt(context.boardId);
-              console.log('📋 Found board ID from context:', boardId);
-            } else {
-              console.log('📋 Using default board ID:', boardId);
+            const boardIds = getMondayBoardIds(context);
+            if (boardIds.length === 0) {
+              throw new Error('The monday context has no board');
             }
+            console.log('📋 Found board IDs from context:', boardIds);
             
             const { fetchPivotData } = await import('../index');
-            const mondayData = await fetchPivotData(boardId);
+            const mondayData = await fetchPivotData(boardIds, fetchOptions);
             setData(mondayData);
             setDataSource('monday');
+            setMondayBoardIds(boardIds);
+            setLayoutKey(getLayoutStorageKey(boardIds, contextData && contextData.instanceId));
             console.log('✅ Successfully loaded Monday.com data:', mondayData);
+
+            // Board events arrive as item changes that the pivot applies without a full reload
+            const source = createMondaySdkSource(boardIds);
+            const stopData = source.subscribe((change: PivotDataChange) => {
+              // An imported file replaced the board data
+              if (abortController.signal.aborted) return;
+              if (change.type === 'filter') {
+                setVisibleIds(change.ids ? new Set(change.ids) : null);
+              } else if (change.type === 'reset') {
+                console.log('🔄 Board changed, reloading Monday.com data...');
+                source.fetch({ signal: abortController.signal })
+                  .then(setData)
+                  .catch(error => console.error('❌ Error reloading Monday.com data:', error));
+              } else {
+                console.log(`🔴 Live ${change.type}:`, change.type === 'upsert' ? change.items : change.ids);
+                setData(current => applyPivotDataChange(current, change));
+              }
+            });
+            // Theme switches arrive as context updates
+            const stopContext = (window as any).monday.listen('context', (update: any) => {
+              if (!abortController.signal.aborted) setTheme(getMondayTheme(update));
+            });
+            unsubscribe = () => {
+              stopData();
+              if (typeof stopContext === 'function') stopContext();
+            };
           } catch (contextError) {
             console.error('❌ Error getting Monday.com context:', contextError);
             throw contextError;
           }
-        } else if (isInsideMondayPlatform) {
+        } else if (insideMondayPlatform) {
           // We're inside Monday.com but SDK isn't available
           console.log('🔄 Inside Monday.com platform but SDK not available, trying URL context...');
           
-          // Get board ID from URL context
-          let boardId = 4754725643; // Default fallback
-          try {
-            // Try to get from window context first
-            if ((window as any).mondayContext && (window as any).mondayContext.boardId) {
-              boardId = parseInt((window as any).mondayContext.boardId);
-              console.log('🎯 Using board ID from window context:', boardId);
-            } else {
-              // Extract from URL
-              const urlParams = new URLSearchParams(window.location.search);
-              const urlBoardId = urlParams.get('boardId');
-              if (urlBoardId) {
-                boardId = parseInt(urlBoardId);
-                console.log('🎯 Using board ID from URL params:', boardId);
-              } else {
-                console.log('🎯 Using default board ID:', boardId);
-              }
-            }
-          } catch (error) {
-            console.log('⚠️ Could not extract board ID, using default:', boardId);
+          // Get board IDs from the window context first, then the URL
+          const windowContext = (window as any).mondayContext;
+          let boardIds = getMondayBoardIds(windowContext);
+          if (boardIds.length > 0) {
+            console.log('🎯 Using board IDs from window context:', boardIds);
+            setTheme(getMondayTheme(windowContext));
+          } else {
+            boardIds = getUrlBoardIds();
+            console.log('🎯 Using board IDs from URL params:', boardIds);
+          }
+          if (boardIds.length === 0) {
+            throw new Error('No board ID in the monday context or URL');
           }
           
           // Try to fetch data using session token approach
           const { fetchPivotData } = await import('../index');
-          const mondayData = await fetchPivotData(boardId);
+          const mondayData = await fetchPivotData(boardIds, fetchOptions);
           setData(mondayData);
           setDataSource('monday');
+          setMondayBoardIds(boardIds);
           console.log('✅ Successfully loaded Monday.com data via session token:', mondayData);
         } else {
           // Not inside Monday.com, use local development methods
           console.log('🔄 Not inside Monday.com platform, trying local development methods...');
+          const boardIds = getUrlBoardIds();
+          if (boardIds.length === 0) {
+            throw new Error('No board ID in the URL; open the app with ?boardId=<board ID> to load a board');
+          }
           const { fetchPivotData } = await import('../index');
-          const mondayData = await fetchPivotData(4754725643);
+          const mondayData = await fetchPivotData(boardIds, fetchOptions);
           setData(mondayData);
           setDataSource('monday');
+          setMondayBoardIds(boardIds);
           console.log('✅ Successfully loaded Monday.com data via local methods:', mondayData);
         }
       } catch (error) {
+        if (abortController.signal.aborted) {
+          console.log('🛑 Monday.com data fetch cancelled');
+          return;
+        }
         console.error('❌ Error fetching Monday.com data:', error);
         console.error('Error details:', error instanceof Error ? error.message : error);
         // Keep sample data if Monday.com fetch fails
         setDataSource('sample');
         console.log('🔄 Using sample data instead');
       } finally {
-        setIsLoading(false);
+        if (!abortController.signal.aborted) {
+          setIsLoading(false);
+        }
       }
     }
     
@@ -136,24 +243,80 @@ const App: React.FC = () => {
     let attempts = 0;
     const maxAttempts = 50; // 5 seconds
     
+    let retryTimer: ReturnType<typeof setTimeout> | undefined;
+    
     const waitForSDKAndFetch = () => {
       attempts++;
       console.log(`🕐 Attempt ${attempts}/${maxAttempts} - Checking for Monday.com SDK...`);
       
-      if (typeof window !== 'undefined' && (window as any).monday && typeof (window as any).monday.api === 'function') {
+      if (isMondaySDKAvailable()) {
         console.log('✅ Monday.com SDK found, proceeding with data fetch');
         fetchData();
       } else if (attempts >= maxAttempts) {
         console.log('⏰ SDK loading timeout, proceeding anyway');
         fetchData();
       } else {
-        setTimeout(waitForSDKAndFetch, 100);
+        retryTimer = setTimeout(waitForSDKAndFetch, 100);
       }
     };
     
     waitForSDKAndFetch();
+    
+    return () => {
+      clearTimeout(retryTimer);
+      abortController.abort();
+      unsubscribe?.();
+    };
   }, []);
 
+  const handleImport = (result: PivotImportResult, fileName: string) => {
+    // An imported file wins over a board fetch that is still in flight
+    fetchAbortRef.current?.abort();
+    setIsLoading(false);
+
+    const imported = inferFieldSchema(result.data);
+    const groupFields = imported.filter(field => field.type !== 'number').map(field => field.name);
+    const numberFields = imported.filter(field => field.type === 'number').map(field => field.name);
+
+    setData(result.data);
+    setVisibleIds(null);
+    setDataSource('file');
+    setImportedFileName(fileName);
+    setPivotConfig(prev => ({
+      ...prev,
+      rows: groupFields.slice(0, 1),
+      columns: groupFields.slice(1, 2),
+      values: numberFields.slice(0, 1),
+      aggregation: numberFields.length > 0 ? 'sum' : 'count',
+      measures: undefined,
+      filters: [],
+    }));
+  };
+
+  // Unchanged items keep their identity, so the pivot only re-aggregates what the filter added or hid
+  const visibleData = useMemo(
+    () => (visibleIds ? data.filter(item => visibleIds.has(String(item.id))) : data),
+    [data, visibleIds]
+  );
+
+  // The chart pivots on its own worker, and only while it is shown
+  const chartPivot = usePivotResult(visibleData, view === 'table' ? null : pivotConfig);
+
+  const handleLayoutLoad = (layout: PivotSavedLayout) => {
+    setPivotConfig(layout.config);
+    setConditionalFormats(layout.conditionalFormats || []);
+    setColumnSort(layout.columnSort ?? null);
+  };
+
+  const highlightOption = Object.keys(HIGHLIGHT_OPTIONS).find(key =>
+    JSON.stringify(HIGHLIGHT_OPTIONS[key].formats) === JSON.stringify(conditionalFormats)
+  ) || 'custom';
+
+  // Compared by value, since loaded layouts come back from JSON as new objects
+  const showValuesAsOption = Object.keys(SHOW_VALUES_AS_OPTIONS).find(key =>
+    JSON.stringify(SHOW_VALUES_AS_OPTIONS[key].showAs) === JSON.stringify(pivotConfig.showValuesAs)
+  ) || 'custom';
+
   const handleConfigChange = (field: keyof PivotConfig, value: any) => {
     setPivotConfig(prev => ({
       ...prev,
@@ -165,74 +328,67 @@ const App: React.FC = () => {
     <div style={{ padding: '20px', maxWidth: '1200px', margin: '0 auto' }}>
       <h1>Pivot Table Demo</h1>
       
+      <div style={{ marginBottom: '20px' }}>
+        <PivotFieldList data={data} config={pivotConfig} onChange={setPivotConfig} />
+      </div>
+
       <div style={{ marginBottom: '20px', display: 'flex', gap: '20px', flexWrap: 'wrap' }}>
         <div>
           <label>
-            <strong>Rows:</strong>
-            <select 
-              value={pivotConfig.rows[0]} 
-              onChange={(e) => handleConfigChange('rows', [e.target.value])}
-              style={{ marginLeft: '10px', padding: '5px' }}
-            >
-              <option value="status">Status</option>
-              <option value="owner">Owner</option>
-              <option value="quarter">Quarter</option>
-            </select>
-          </label>
-        </div>
-        
-        <div>
-          <label>
-            <strong>Columns:</strong>
-            <select 
-              value={pivotConfig.columns[0]} 
-              onChange={(e) => handleConfigChange('columns', [e.target.value])}
-              style={{ marginLeft: '10px', padding: '5px' }}
-            >
-              <option value="owner">Owner</option>
-              <option value="status">Status</option>
-              <option value="quarter">Quarter</option>
-            </select>
-          </label>
-        </div>
-        
-        <div>
-          <label>
-            <strong>Values:</strong>
+            <strong>Show values as:</strong>
             <select 
-              value={pivotConfig.values[0]} 
-              onChange={(e) => handleConfigChange('values', [e.target.value])}
+              value={showValuesAsOption} 
+              onChange={(e) => handleConfigChange('showValuesAs', SHOW_VALUES_AS_OPTIONS[e.target.value].showAs)}
               style={{ marginLeft: '10px', padding: '5px' }}
             >
-              <option value="budget">Budget</option>
+              {showValuesAsOption === 'custom' && <option value="custom" disabled>Custom</option>}
+              {Object.entries(SHOW_VALUES_AS_OPTIONS).map(([value, option]) => (
+                <option key={value} value={value}>{option.label}</option>
+              ))}
             </select>
           </label>
         </div>
-        
         <div>
           <label>
-            <strong>Aggregation:</strong>
-            <select 
-              value={pivotConfig.aggregation} 
-              onChange={(e) => handleConfigChange('aggregation', e.target.value)}
+            <strong>Highlight:</strong>
+            <select
+              value={highlightOption}
+              onChange={(e) => setConditionalFormats(HIGHLIGHT_OPTIONS[e.target.value].formats)}
               style={{ marginLeft: '10px', padding: '5px' }}
             >
-              <option value="sum">Sum</option>
-              <option value="count">Count</option>
-              <option value="avg">Average</option>
-              <option value="min">Min</option>
-              <option value="max">Max</option>
+              {highlightOption === 'custom' && <option value="custom" disabled>Custom</option>}
+              {Object.entries(HIGHLIGHT_OPTIONS).map(([value, option]) => (
+                <option key={value} value={value}>{option.label}</option>
+              ))}
             </select>
           </label>
         </div>
       </div>
 
+      <div style={{ marginBottom: '20px' }}>
+        <PivotLayoutSwitcher
+          storage={layoutStorage}
+          storageKey={layoutKey}
+          current={{ config: pivotConfig, conditionalFormats, columnSort }}
+          onLoad={handleLayoutLoad}
+        />
+      </div>
+
+      <div style={{ marginBottom: '20px' }}>
+        <PivotFileImport onImport={handleImport} />
+      </div>
+
       <div style={{ marginBottom: '20px' }}>
         <h3>
           Raw Data ({data.length} items) 
-          {isLoading && <span style={{ color: '#007bff' }}> - Loading...</span>}
+          {isLoading && (
+            <span style={{ color: '#007bff' }}>
+              {' '}- Loading{loadedItems > 0 ? ` (${loadedItems} items fetched)` : ''}...
+            </span>
+          )}
           {!isLoading && dataSource === 'monday' && <span style={{ color: '#28a745' }}> - Live Monday.com Data 🔴</span>}
           {!isLoading && dataSource === 'sample' && <span style={{ color: '#ffc107' }}> - Sample Data 📋</span>}
+          {!isLoading && dataSource === 'file' && <span style={{ color: '#17a2b8' }}> - Imported from {importedFileName} 📄</span>}
         </h3>
         <div style={{ maxHeight: '200px', overflow: 'auto', border: '1px solid #ddd', padding: '10px' }}>
           <pre style={{ fontSize: '12px', margin: 0 }}>
@@ -242,12 +398,47 @@ const App: React.FC = () => {
       </div>
 
       <div>
-        <h3>Pivot Table</h3>
-        <PivotTable 
-          data={data} 
-          config={pivotConfig} 
-          className="my-pivot-table"
-        />
+        <h3 style={{ display: 'flex', alignItems: 'center', gap: '10px' }}>
+          {view === 'table' ? 'Pivot Table' : 'Pivot Chart'}
+          <select
+            value={view}
+            onChange={(e) => setView(e.target.value as 'table' | PivotChartType)}
+            aria-label="View"
+            style={{ padding: '5px', fontWeight: 'normal' }}
+          >
+            {Object.entries(VIEW_OPTIONS).map(([value, label]) => (
+              <option key={value} value={value}>{label}</option>
+            ))}
+          </select>
+        </h3>
+        {view === 'table' ? (
+          <PivotTable 
+            data={visibleData} 
+            config={pivotConfig} 
+            className="my-pivot-table"
+            conditionalFormats={conditionalFormats}
+            columnSort={columnSort}
+            onColumnSortChange={setColumnSort}
+            locale={locale}
+            theme={theme}
+            getItemUrl={dataSource === 'monday'
+              ? item => {
+                const boardId = getSourceBoardId(item, mondayBoardIds);
+                return item.id && boardId ? getMondayItemUrl(boardId, item.id) : undefined;
+              }
+              : undefined}
+          />
+        ) : chartPivot.error ? (
+          <div className="pivot-table-empty pivot-table-error" role="alert">
+            <p>{chartPivot.error}</p>
+          </div>
+        ) : chartPivot.result ? (
+          <PivotChart result={chartPivot.result} type={view} locale={locale} theme={theme} />
+        ) : (
+          <div className="pivot-table-empty pivot-table-loading" role="status">
+            <p>Calculating…</p>
+          </div>
+        )}
       </div>
 
       <div style={{ 
@@ -260,15 +451,22 @@ const App: React.FC = () => {
         {dataSource === 'monday' ? (
           <>
             <h4>🔴 Live Monday.com Data Connected!</h4>
-            <p>✅ <strong>Board ID: 4754725643</strong></p>
-            <p>This pivot table is displaying live data from your Monday.com board. The data refreshes when you reload the page.</p>
+            <p>✅ <strong>Board ID{mondayBoardIds.length > 1 ? 's' : ''}: {mondayBoardIds.join(', ')}</strong></p>
+            <p>This pivot table is displaying live data from your Monday.com board{mondayBoardIds.length > 1 ? 's, with "board" and "boardId" fields naming where each item came from' : ''}. It follows the board's filter and search, and item changes on the board show up as they happen.</p>
+          </>
+        ) : dataSource === 'file' ? (
+          <>
+            <h4>📄 Imported File</h4>
+            <p>✅ <strong>{importedFileName}</strong> - {data.length} rows</p>
+            <p>This pivot table is displaying data from an imported file. Reload the page to reconnect to Monday.com.</p>
           </>
         ) : (
           <>
             <h4>📋 Sample Data Mode</h4>
-            <p>⚠️ <strong>Board ID: 4754725643</strong> - Connection not established</p>
+            <p>⚠️ <strong>No board connected</strong> - Connection not established</p>
             <p>Currently showing sample data. Check the browser console for connection details.</p>
             <p>🔄 Make sure your MCP connection is running: <code>npx mcp-remote https://mcp.monday.com/sse</code></p>
+            <p>🔗 Outside Monday.com, name the board in the URL: <code>?boardId=123</code>, or <code>?boardIds=123,456</code> to merge several.</p>
           </>
         )}
       </div>
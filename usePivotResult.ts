@@ -0,0 +1,58 @@
+import { useEffect, useRef, useState } from 'react';
+import { PivotConfig, PivotData, PivotResult } from './pivot';
+import { PivotComputeClient, createPivotComputeClient, isAbortError } from './pivotCompute';
+
+export interface PivotResultState {
+  // The last result; kept while a newer one is computed, null until the first arrives
+  result: PivotResult | null;
+  error: string | null;
+  isComputing: boolean;
+  // Items behind a cell of `result`, which comes back from the worker without them
+  getCellItems(rowKey: string, columnKey: string): Promise<PivotData[]>;
+}
+
+// Pivots `data` off the main thread whenever it or `config` changes. One worker per caller; it keeps
+// the engine, so new data re-aggregates only the groups whose items changed. A null config skips
+// computing, e.g. while the view that needs the result is hidden.
+export function usePivotResult(data: PivotData[], config: PivotConfig | null): PivotResultState {
+  const client = useRef<PivotComputeClient | null>(null);
+  const getClient = () => client.current || (client.current = createPivotComputeClient());
+  const [result, setResult] = useState<PivotResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isComputing, setIsComputing] = useState(config !== null);
+
+  useEffect(() => {
+    if (!config) return;
+    const abortController = new AbortController();
+    setIsComputing(true);
+    getClient().compute(data, config, abortController.signal)
+      .then(next => {
+        setResult(next);
+        setError(null);
+        setIsComputing(false);
+      })
+      .catch(reason => {
+        if (isAbortError(reason)) return;
+        // Calculated fields and formulas are user input, so their errors are shown rather than thrown
+        console.error('❌ Error building pivot table:', reason);
+        setError(reason instanceof Error ? reason.message : String(reason));
+        setIsComputing(false);
+      });
+    return () => abortController.abort();
+  }, [data, config]);
+
+  useEffect(() => () => {
+    client.current?.dispose();
+    client.current = null;
+  }, []);
+
+  return {
+    result,
+    error,
+    isComputing,
+    // Tied to the result on screen: answers from an engine that has moved on reject with an AbortError
+    getCellItems: (rowKey, columnKey) => (result
+      ? getClient().getCellItems(rowKey, columnKey, result)
+      : Promise.resolve([]))
+  };
+}
@@ -0,0 +1,300 @@
+// Minimal SpreadsheetML writer: one worksheet with inline strings, merged ranges, bold cells,
+// number formats and frozen panes, packed into an uncompressed zip
+
+export interface XlsxCell {
+  value: string | number | null;
+  // Excel format code such as '#,##0.00' or '0.0%'
+  numberFormat?: string;
+  bold?: boolean;
+}
+
+// Zero-based top-left corner plus size, like an HTML rowSpan/colSpan
+export interface XlsxMerge {
+  row: number;
+  column: number;
+  rowSpan: number;
+  colSpan: number;
+}
+
+export interface XlsxSheet {
+  name: string;
+  rows: (XlsxCell | null)[][];
+  merges?: XlsxMerge[];
+  frozenRows?: number;
+  frozenColumns?: number;
+}
+
+const CUSTOM_FORMAT_START = 164;
+const MIN_COLUMN_WIDTH = 8;
+const MAX_COLUMN_WIDTH = 50;
+
+export function createXlsx(sheet: XlsxSheet): Uint8Array {
+  const styles = createStyleRegistry();
+  const worksheet = writeWorksheet(sheet, styles);
+
+  return createZip([
+    { name: '[Content_Types].xml', content: CONTENT_TYPES },
+    { name: '_rels/.rels', content: ROOT_RELS },
+    { name: 'xl/workbook.xml', content: writeWorkbook(sheet.name) },
+    { name: 'xl/_rels/workbook.xml.rels', content: WORKBOOK_RELS },
+    { name: 'xl/styles.xml', content: styles.write() },
+    { name: 'xl/worksheets/sheet1.xml', content: worksheet }
+  ]);
+}
+
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+const MAIN_NS = 'http://schemas.openxmlformats.org/spreadsheetml/2006/main';
+const REL_NS = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+
+const CONTENT_TYPES = XML_HEADER +
+  '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+  '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+  '<Default Extension="xml" ContentType="application/xml"/>' +
+  '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+  '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>' +
+  '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>' +
+  '</Types>';
+
+const ROOT_RELS = XML_HEADER +
+  '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+  `<Relationship Id="rId1" Type="${REL_NS}/officeDocument" Target="xl/workbook.xml"/>` +
+  '</Relationships>';
+
+const WORKBOOK_RELS = XML_HEADER +
+  '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+  `<Relationship Id="rId1" Type="${REL_NS}/worksheet" Target="worksheets/sheet1.xml"/>` +
+  `<Relationship Id="rId2" Type="${REL_NS}/styles" Target="styles.xml"/>` +
+  '</Relationships>';
+
+function writeWorkbook(sheetName: string): string {
+  return XML_HEADER +
+    `<workbook xmlns="${MAIN_NS}" xmlns:r="${REL_NS}">` +
+    `<sheets><sheet name="${escapeXml(getSheetName(sheetName))}" sheetId="1" r:id="rId1"/></sheets>` +
+    '</workbook>';
+}
+
+function writeWorksheet(sheet: XlsxSheet, styles: StyleRegistry): string {
+  const { rows, merges = [], frozenRows = 0, frozenColumns = 0 } = sheet;
+  const width = rows.reduce((max, row) => Math.max(max, row.length), 0);
+
+  const widths = Array.from({ length: width }, (_, column) =>
+    rows.reduce((max, row) => {
+      const cell = row[column];
+      return cell && cell.value !== null ? Math.max(max, getDisplayLength(cell.value) + 2) : max;
+    }, MIN_COLUMN_WIDTH)
+  );
+  const cols = widths.length > 0
+    ? '<cols>' + widths.map((w, i) =>
+      `<col min="${i + 1}" max="${i + 1}" width="${Math.min(w, MAX_COLUMN_WIDTH)}" customWidth="1"/>`
+    ).join('') + '</cols>'
+    : '';
+
+  const sheetData = rows.map((row, r) => {
+    const cells = row.map((cell, c) => (cell ? writeCell(cell, cellReference(r, c), styles) : '')).join('');
+    return `<row r="${r + 1}">${cells}</row>`;
+  }).join('');
+
+  const mergeCells = merges.filter(merge => merge.rowSpan > 1 || merge.colSpan > 1);
+  const mergeXml = mergeCells.length > 0
+    ? `<mergeCells count="${mergeCells.length}">` + mergeCells.map(merge =>
+      `<mergeCell ref="${cellReference(merge.row, merge.column)}:` +
+      `${cellReference(merge.row + merge.rowSpan - 1, merge.column + merge.colSpan - 1)}"/>`
+    ).join('') + '</mergeCells>'
+    : '';
+
+  return XML_HEADER +
+    `<worksheet xmlns="${MAIN_NS}" xmlns:r="${REL_NS}">` +
+    writeSheetView(frozenRows, frozenColumns) +
+    cols +
+    `<sheetData>${sheetData}</sheetData>` +
+    mergeXml +
+    '</worksheet>';
+}
+
+function writeSheetView(frozenRows: number, frozenColumns: number): string {
+  if (frozenRows === 0 && frozenColumns === 0) return '';
+  const split = (frozenColumns > 0 ? ` xSplit="${frozenColumns}"` : '') +
+    (frozenRows > 0 ? ` ySplit="${frozenRows}"` : '');
+  const activePane = frozenRows === 0 ? 'topRight' : frozenColumns === 0 ? 'bottomLeft' : 'bottomRight';
+  return '<sheetViews><sheetView workbookViewId="0">' +
+    `<pane${split} topLeftCell="${cellReference(frozenRows, frozenColumns)}" activePane="${activePane}" state="frozen"/>` +
+    '</sheetView></sheetViews>';
+}
+
+function writeCell(cell: XlsxCell, reference: string, styles: StyleRegistry): string {
+  const style = styles.get(cell);
+  const s = style > 0 ? ` s="${style}"` : '';
+
+  if (typeof cell.value === 'number' && Number.isFinite(cell.value)) {
+    return `<c r="${reference}"${s}><v>${cell.value}</v></c>`;
+  }
+  if (cell.value === null || cell.value === '' || typeof cell.value === 'number') {
+    return s ? `<c r="${reference}"${s}/>` : '';
+  }
+  return `<c r="${reference}"${s} t="inlineStr"><is><t xml:space="preserve">${escapeXml(cell.value)}</t></is></c>`;
+}
+
+interface StyleRegistry {
+  get(cell: XlsxCell): number;
+  write(): string;
+}
+
+// Collects one cellXfs entry per distinct bold/number format combination; index 0 is the default
+function createStyleRegistry(): StyleRegistry {
+  const formats: string[] = [];
+  const styles = new Map<string, number>([['false\u001f', 0]]);
+  const entries: { format: number; bold: boolean }[] = [{ format: 0, bold: false }];
+
+  return {
+    get(cell) {
+      const format = cell.numberFormat || '';
+      const key = `${!!cell.bold}\u001f${format}`;
+      const existing = styles.get(key);
+      if (existing !== undefined) return existing;
+
+      let formatId = 0;
+      if (format) {
+        if (!formats.includes(format)) formats.push(format);
+        formatId = CUSTOM_FORMAT_START + formats.indexOf(format);
+      }
+      entries.push({ format: formatId, bold: !!cell.bold });
+      styles.set(key, entries.length - 1);
+      return entries.length - 1;
+    },
+    write() {
+      const numFmts = formats.length > 0
+        ? `<numFmts count="${formats.length}">` + formats.map((code, i) =>
+          `<numFmt numFmtId="${CUSTOM_FORMAT_START + i}" formatCode="${escapeXml(code)}"/>`
+        ).join('') + '</numFmts>'
+        : '';
+      const xfs = entries.map(entry =>
+        `<xf numFmtId="${entry.format}" fontId="${entry.bold ? 1 : 0}" fillId="0" borderId="0" xfId="0"` +
+        `${entry.format ? ' applyNumberFormat="1"' : ''}${entry.bold ? ' applyFont="1"' : ''}/>`
+      ).join('');
+
+      return XML_HEADER +
+        `<styleSheet xmlns="${MAIN_NS}">` +
+        numFmts +
+        '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font>' +
+        '<font><b/><sz val="11"/><name val="Calibri"/></font></fonts>' +
+        '<fills count="2"><fill><patternFill patternType="none"/></fill>' +
+        '<fill><patternFill patternType="gray125"/></fill></fills>' +
+        '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>' +
+        '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>' +
+        `<cellXfs count="${entries.length}">${xfs}</cellXfs>` +
+        '</styleSheet>';
+    }
+  };
+}
+
+// Numbers are shown rounded, so their full-precision text would make columns far too wide
+function getDisplayLength(value: string | number): number {
+  return typeof value === 'number'
+    ? value.toLocaleString('en-US', { maximumFractionDigits: 2 }).length
+    : value.length;
+}
+
+// "A1" style reference for zero-based coordinates
+function cellReference(row: number, column: number): string {
+  let name = '';
+  for (let n = column + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return `${name}${row + 1}`;
+}
+
+// Excel rejects sheet names over 31 characters or containing : \ / ? * [ ]
+function getSheetName(name: string): string {
+  return name.replace(/[:\\/?*[\]]/g, ' ').slice(0, 31).trim() || 'Sheet1';
+}
+
+function escapeXml(value: string): string {
+  return value
+    // Control characters other than tab and newlines are not allowed in XML 1.0
+    .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+interface ZipEntry {
+  name: string;
+  content: string;
+}
+
+// Stored (uncompressed) zip archive, which every xlsx reader accepts
+function createZip(entries: ZipEntry[]): Uint8Array {
+  const encoder = new TextEncoder();
+  const localParts: Uint8Array[] = [];
+  const centralParts: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = encoder.encode(entry.name);
+    const data = encoder.encode(entry.content);
+    const crc = crc32(data);
+
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, 0x04034b50, true);
+    local.setUint16(4, 20, true);
+    local.setUint16(6, 0x0800, true); // UTF-8 names
+    local.setUint16(8, 0, true); // stored
+    local.setUint32(10, 0x00210000, true); // 1980-01-01 00:00
+    local.setUint32(14, crc, true);
+    local.setUint32(18, data.length, true);
+    local.setUint32(22, data.length, true);
+    local.setUint16(26, name.length, true);
+    local.setUint16(28, 0, true);
+
+    const central = new DataView(new ArrayBuffer(46));
+    central.setUint32(0, 0x02014b50, true);
+    central.setUint16(4, 20, true);
+    central.setUint16(6, 20, true);
+    central.setUint16(8, 0x0800, true);
+    central.setUint16(10, 0, true);
+    central.setUint32(12, 0x00210000, true);
+    central.setUint32(16, crc, true);
+    central.setUint32(20, data.length, true);
+    central.setUint32(24, data.length, true);
+    central.setUint16(28, name.length, true);
+    central.setUint32(42, offset, true);
+
+    localParts.push(new Uint8Array(local.buffer), name, data);
+    centralParts.push(new Uint8Array(central.buffer), name);
+    offset += 30 + name.length + data.length;
+  }
+
+  const centralSize = centralParts.reduce((sum, part) => sum + part.length, 0);
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054b50, true);
+  end.setUint16(8, entries.length, true);
+  end.setUint16(10, entries.length, true);
+  end.setUint32(12, centralSize, true);
+  end.setUint32(16, offset, true);
+
+  const parts = [...localParts, ...centralParts, new Uint8Array(end.buffer)];
+  const zip = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let position = 0;
+  for (const part of parts) {
+    zip.set(part, position);
+    position += part.length;
+  }
+  return zip;
+}
+
+let crcTable: Uint32Array | null = null;
+
+function crc32(data: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      crcTable[n] = c >>> 0;
+    }
+  }
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) crc = crcTable[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}